@@ -0,0 +1,141 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Database, Loader2, Play, RefreshCw, Trash2 } from 'lucide-react';
+import { ScrapeCache, type CachedScrape } from '@/utils/scrapeCache';
+
+interface CacheBrowserProps {
+  version: number;
+  disabled?: boolean;
+  onReconvert: (entry: CachedScrape) => void;
+  onRefresh: (entry: CachedScrape) => void;
+}
+
+const formatSize = (entry: CachedScrape) => {
+  const bytes = entry.pages.reduce((total, page) => total + (page.html?.length || 0) + (page.markdown?.length || 0), 0);
+  return bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+};
+
+export const CacheBrowser: React.FC<CacheBrowserProps> = ({ version, disabled, onReconvert, onRefresh }) => {
+  const [entries, setEntries] = useState<CachedScrape[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await ScrapeCache.list());
+    } catch (error) {
+      console.error('Error reading scrape cache:', error);
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries, version]);
+
+  const handleDelete = async (key: string) => {
+    try {
+      await ScrapeCache.delete(key);
+    } catch (error) {
+      console.error('Error deleting cached scrape:', error);
+    } finally {
+      loadEntries();
+    }
+  };
+
+  const handlePurge = async () => {
+    try {
+      await ScrapeCache.clear();
+    } catch (error) {
+      console.error('Error clearing scrape cache:', error);
+    } finally {
+      loadEntries();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Database className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">
+          No cached scrapes yet. Completed crawls are stored here automatically.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-md divide-y">
+        {entries.map(entry => (
+          <div key={entry.key} className="flex items-center justify-between gap-2 px-3 py-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{entry.url}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(entry.createdAt).toLocaleString()} · limit {entry.settings.limit}, depth {entry.settings.maxDepth}
+                {entry.settings.includePaths.length > 0 && ` · ${entry.settings.includePaths.join(' ')}`}
+                {entry.settings.excludePaths.length > 0 && ` · not ${entry.settings.excludePaths.join(' ')}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge variant="outline">{entry.providerId}</Badge>
+              <Badge variant="secondary">{entry.pages.length} Pages · {formatSize(entry)}</Badge>
+              <Button variant="ghost" size="sm" title="Re-convert" disabled={disabled} onClick={() => onReconvert(entry)}>
+                <Play className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" title="Refresh" disabled={disabled} onClick={() => onRefresh(entry)}>
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(entry.key)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" className="w-full">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Purge Cache
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Purge all cached scrapes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {entries.length} cached crawls will be deleted. Converting those sites again will scrape them again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>Purge</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
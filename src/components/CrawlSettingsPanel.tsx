@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Settings2, CheckCircle } from 'lucide-react';
+import { crawlSettingsSchema, DEFAULT_CRAWL_SETTINGS, type CrawlSettings } from '@/utils/crawlSettings';
+import { ProjectStore } from '@/utils/projects';
+
+interface CrawlSettingsPanelProps {
+  url: string;
+  onSave?: (settings: CrawlSettings) => void;
+}
+
+interface CrawlSettingsForm {
+  includePaths: string;
+  excludePaths: string;
+  maxDepth: string;
+  limit: string;
+  waitFor: string;
+  onlyMainContent: boolean;
+  includeTags: string;
+  excludeTags: string;
+}
+
+const toForm = (settings: CrawlSettings): CrawlSettingsForm => ({
+  includePaths: settings.includePaths.join('\n'),
+  excludePaths: settings.excludePaths.join('\n'),
+  maxDepth: String(settings.maxDepth),
+  limit: String(settings.limit),
+  waitFor: String(settings.waitFor),
+  onlyMainContent: settings.onlyMainContent,
+  includeTags: settings.includeTags.join(', '),
+  excludeTags: settings.excludeTags.join(', ')
+});
+
+const splitList = (value: string, separator: RegExp) =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+export const CrawlSettingsPanel: React.FC<CrawlSettingsPanelProps> = ({ url, onSave }) => {
+  const projectId = ProjectStore.getProjectId(url);
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<CrawlSettingsForm>(() => toForm(ProjectStore.getForUrl(url).crawlSettings));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+  const [loadedProjectId, setLoadedProjectId] = useState(projectId);
+
+  // Load the saved settings while rendering whenever the URL points at a different site
+  if (loadedProjectId !== projectId) {
+    setLoadedProjectId(projectId);
+    setForm(toForm(ProjectStore.getForUrl(url).crawlSettings));
+    setErrors({});
+    setSaved(false);
+  }
+
+  const updateField = <K extends keyof CrawlSettingsForm>(key: K, value: CrawlSettingsForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    const result = crawlSettingsSchema.safeParse({
+      includePaths: splitList(form.includePaths, /\n/),
+      excludePaths: splitList(form.excludePaths, /\n/),
+      maxDepth: toNumber(form.maxDepth),
+      limit: toNumber(form.limit),
+      waitFor: toNumber(form.waitFor),
+      onlyMainContent: form.onlyMainContent,
+      includeTags: splitList(form.includeTags, /,/),
+      excludeTags: splitList(form.excludeTags, /,/)
+    });
+
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.issues.forEach(issue => {
+        const field = String(issue.path[0]);
+        fieldErrors[field] = fieldErrors[field] || issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    ProjectStore.save({ ...ProjectStore.getForUrl(url), crawlSettings: result.data });
+    setErrors({});
+    setSaved(true);
+    onSave?.(result.data);
+  };
+
+  const handleReset = () => {
+    setForm(toForm(DEFAULT_CRAWL_SETTINGS));
+    setErrors({});
+    setSaved(false);
+  };
+
+  const renderError = (field: keyof CrawlSettingsForm) =>
+    errors[field] && <p className="text-xs text-destructive">{errors[field]}</p>;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-md">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium">
+          <span className="flex items-center gap-2">
+            <Settings2 className="w-4 h-4" />
+            Crawl Settings
+            <span className="font-normal text-muted-foreground">
+              ({form.limit} pages, depth {form.maxDepth}, {projectId})
+            </span>
+          </span>
+          <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-3 pb-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="includePaths">Include Paths</Label>
+            <Textarea
+              id="includePaths"
+              placeholder="/services/*"
+              value={form.includePaths}
+              onChange={(e) => updateField('includePaths', e.target.value)}
+              className="h-20 font-mono text-xs"
+            />
+            {renderError('includePaths')}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="excludePaths">Exclude Paths</Label>
+            <Textarea
+              id="excludePaths"
+              placeholder="/blog/*"
+              value={form.excludePaths}
+              onChange={(e) => updateField('excludePaths', e.target.value)}
+              className="h-20 font-mono text-xs"
+            />
+            {renderError('excludePaths')}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          One pattern per line. * matches any characters, so /blog/* also covers nested posts.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="limit">Page Limit</Label>
+            <Input
+              id="limit"
+              type="number"
+              min={1}
+              value={form.limit}
+              onChange={(e) => updateField('limit', e.target.value)}
+            />
+            {renderError('limit')}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxDepth">Max Depth</Label>
+            <Input
+              id="maxDepth"
+              type="number"
+              min={0}
+              value={form.maxDepth}
+              onChange={(e) => updateField('maxDepth', e.target.value)}
+            />
+            {renderError('maxDepth')}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="waitFor">Wait Time (ms)</Label>
+            <Input
+              id="waitFor"
+              type="number"
+              min={0}
+              step={500}
+              value={form.waitFor}
+              onChange={(e) => updateField('waitFor', e.target.value)}
+            />
+            {renderError('waitFor')}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="onlyMainContent"
+            checked={form.onlyMainContent}
+            onCheckedChange={(checked) => updateField('onlyMainContent', checked)}
+          />
+          <Label htmlFor="onlyMainContent">Main content only</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="includeTags">Include Tags</Label>
+          <Input
+            id="includeTags"
+            value={form.includeTags}
+            onChange={(e) => updateField('includeTags', e.target.value)}
+            className="font-mono text-xs"
+          />
+          {renderError('includeTags')}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="excludeTags">Exclude Tags</Label>
+          <Input
+            id="excludeTags"
+            value={form.excludeTags}
+            onChange={(e) => updateField('excludeTags', e.target.value)}
+            className="font-mono text-xs"
+          />
+          {renderError('excludeTags')}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={handleSave}>Save for {projectId}</Button>
+          <Button size="sm" variant="outline" onClick={handleReset}>Reset to Defaults</Button>
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-success">
+              <CheckCircle className="w-4 h-4" />
+              Saved
+            </span>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
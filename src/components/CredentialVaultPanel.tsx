@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Lock, LockOpen, Plus, ShieldAlert, Trash2 } from 'lucide-react';
+import { CredentialVault } from '@/utils/credentialVault';
+import { ScraperRegistry, type ScraperSettingField } from '@/utils/scrapers';
+
+interface CredentialVaultPanelProps {
+  providerId: string;
+  field: ScraperSettingField;
+  onChange: () => void;
+}
+
+export const CredentialVaultPanel: React.FC<CredentialVaultPanelProps> = ({ providerId, field, onChange }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [keyName, setKeyName] = useState('');
+  const [secret, setSecret] = useState('');
+  const [sessionOnly, setSessionOnly] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped after every vault mutation, the vault itself lives outside React
+  const [, setVersion] = useState(0);
+
+  const vaultExists = CredentialVault.exists();
+  const unlocked = CredentialVault.isUnlocked();
+  const credentials = CredentialVault.list(providerId);
+  const activeId = CredentialVault.getActiveId(providerId);
+
+  const refresh = () => {
+    setVersion(version => version + 1);
+    onChange();
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Vault operation failed');
+    } finally {
+      setIsBusy(false);
+      refresh();
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    if (passphrase.length < 8) throw new Error('Use a passphrase of at least 8 characters');
+    if (passphrase !== confirmation) throw new Error('Passphrases do not match');
+
+    await CredentialVault.create(passphrase);
+    await ScraperRegistry.migratePlaintextSecrets();
+    setPassphrase('');
+    setConfirmation('');
+  });
+
+  const handleUnlock = () => run(async () => {
+    if (!await CredentialVault.unlock(passphrase)) throw new Error('Wrong passphrase');
+
+    await ScraperRegistry.migratePlaintextSecrets();
+    setPassphrase('');
+  });
+
+  const handleAdd = () => run(async () => {
+    await CredentialVault.add({
+      name: keyName.trim() || `${field.label} ${credentials.length + 1}`,
+      providerId,
+      secret: secret.trim(),
+      // Without an unlocked vault there is nowhere to persist the key
+      sessionOnly: sessionOnly || !unlocked
+    });
+    setKeyName('');
+    setSecret('');
+  });
+
+  const handleLock = () => {
+    CredentialVault.lock();
+    refresh();
+  };
+
+  const handleForget = () => {
+    CredentialVault.forget();
+    refresh();
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <Label>{field.label}s</Label>
+        <Badge variant={unlocked ? 'secondary' : 'outline'}>
+          {unlocked ? <LockOpen className="w-3 h-3 mr-1" /> : <Lock className="w-3 h-3 mr-1" />}
+          {unlocked ? 'Vault unlocked' : vaultExists ? 'Vault locked' : 'No vault'}
+        </Badge>
+      </div>
+
+      {ScraperRegistry.hasPlaintextSecrets() && (
+        <Alert>
+          <ShieldAlert className="h-4 w-4" />
+          <AlertDescription>
+            An API key is still stored unencrypted from an earlier version. {vaultExists ? 'Unlock' : 'Create'} the vault to move it in.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!vaultExists && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Keys are encrypted in this browser with a passphrase that is never stored. Without it the keys cannot be recovered.
+          </p>
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="Repeat passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+          <Button variant="outline" onClick={handleCreate} disabled={isBusy || !passphrase}>
+            Create Vault
+          </Button>
+        </div>
+      )}
+
+      {vaultExists && !unlocked && (
+        <div className="flex gap-2">
+          <Input
+            type="password"
+            placeholder="Vault passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+          />
+          <Button variant="outline" onClick={handleUnlock} disabled={isBusy || !passphrase}>
+            Unlock
+          </Button>
+        </div>
+      )}
+
+      {credentials.length > 0 && (
+        <div className="border rounded-md divide-y">
+          {credentials.map(credential => (
+            <div key={credential.id} className="flex items-center justify-between gap-2 px-3 py-2">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name={`credential-${providerId}`}
+                  checked={credential.id === activeId}
+                  onChange={() => {
+                    CredentialVault.setActive(providerId, credential.id);
+                    refresh();
+                  }}
+                />
+                {credential.name}
+                {credential.sessionOnly && <Badge variant="outline">Session only</Badge>}
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Delete"
+                disabled={isBusy}
+                onClick={() => run(() => CredentialVault.remove(credential.id))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Name, e.g. client account"
+            value={keyName}
+            onChange={(e) => setKeyName(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder={field.placeholder}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="session-only"
+              checked={sessionOnly || !unlocked}
+              disabled={!unlocked}
+              onCheckedChange={(checked) => setSessionOnly(checked === true)}
+            />
+            <Label htmlFor="session-only" className="text-sm font-normal">
+              Session only (never saved)
+            </Label>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAdd}
+            disabled={isBusy || !secret.trim()}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Key
+          </Button>
+        </div>
+        {field.description && (
+          <p className="text-xs text-muted-foreground">{field.description}</p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {vaultExists && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleLock} disabled={!unlocked}>
+            <Lock className="w-4 h-4 mr-1" />
+            Lock
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Trash2 className="w-4 h-4 mr-1" />
+                Forget Vault
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Forget the credential vault?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every saved key is deleted from this browser and cannot be recovered, not even with the passphrase.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleForget}>Forget</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+};
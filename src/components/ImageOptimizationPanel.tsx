@@ -0,0 +1,105 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImageOptimizer, type ImageFormat, type ImageOptimizationSettings } from '@/utils/imageOptimizer';
+import type { PackagedAsset } from '@/utils/assets';
+
+interface ImageOptimizationPanelProps {
+  settings: ImageOptimizationSettings;
+  onChange: (settings: ImageOptimizationSettings) => void;
+  disabled?: boolean;
+  // Files of the last packaging run, for the before and after sizes
+  files?: PackagedAsset[];
+}
+
+const formatBytes = (bytes: number) =>
+  bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const ImageOptimizationPanel: React.FC<ImageOptimizationPanelProps> = ({ settings, onChange, disabled, files }) => {
+  const supported = ImageOptimizer.isSupported();
+  const optimized = files?.filter(file => file.width) || [];
+  const before = optimized.reduce((total, file) => total + file.originalSize, 0);
+  const after = optimized.reduce((total, file) => total + file.size, 0);
+  const unoptimized = files?.filter(file => file.optimizeError) || [];
+
+  const update = <K extends keyof ImageOptimizationSettings>(key: K, value: ImageOptimizationSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4 border rounded-md p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="optimize-images">Optimize Images</Label>
+          <p className="text-xs text-muted-foreground">
+            {supported
+              ? 'Resizes and re-encodes JPEG, PNG and WebP files while packaging, which also strips their metadata.'
+              : 'This browser cannot process images, they are packaged unchanged.'}
+          </p>
+        </div>
+        <Switch
+          id="optimize-images"
+          checked={supported && settings.enabled}
+          disabled={disabled || !supported}
+          onCheckedChange={checked => update('enabled', checked)}
+        />
+      </div>
+
+      {supported && settings.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="max-width">Max Width (px)</Label>
+            <Input
+              id="max-width"
+              type="number"
+              min={1}
+              value={settings.maxWidth}
+              disabled={disabled}
+              onChange={e => update('maxWidth', Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={settings.format} disabled={disabled} onValueChange={value => update('format', value as ImageFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="webp">WebP</SelectItem>
+                <SelectItem value="jpeg">JPEG</SelectItem>
+                <SelectItem value="original">Keep format</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Quality: {Math.round(settings.quality * 100)}</Label>
+            <Slider
+              min={10}
+              max={100}
+              step={5}
+              value={[Math.round(settings.quality * 100)]}
+              disabled={disabled}
+              onValueChange={([value]) => update('quality', value / 100)}
+            />
+          </div>
+        </div>
+      )}
+
+      {optimized.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {optimized.length} images: {formatBytes(before)} → {formatBytes(after)}
+          {before > 0 && ` (${Math.round((1 - after / before) * 100)}% smaller)`}
+        </p>
+      )}
+
+      {unoptimized.length > 0 && (
+        <p className="text-sm text-destructive" title={unoptimized.map(file => `${file.url}: ${file.optimizeError}`).join('\n')}>
+          {unoptimized.length} images could not be optimized and were packaged unchanged
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle } from 'lucide-react';
+import { imageWidthSchema, ProjectStore } from '@/utils/projects';
+
+interface ImageWidthSettingProps {
+  url: string;
+}
+
+export const ImageWidthSetting: React.FC<ImageWidthSettingProps> = ({ url }) => {
+  const projectId = ProjectStore.getProjectId(url);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = (value: string) => {
+    const result = imageWidthSchema.safeParse(value.trim() === '' ? NaN : Number(value));
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      setSaved(false);
+      return;
+    }
+
+    const project = ProjectStore.getForUrl(url);
+    if (project.imageWidth !== result.data) {
+      ProjectStore.save({ ...project, imageWidth: result.data });
+      setSaved(true);
+    }
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="imageWidth">Image Width (px)</Label>
+      <div className="flex items-center gap-2">
+        {/* Keyed by project so switching sites shows that site's saved width */}
+        <Input
+          key={projectId}
+          id="imageWidth"
+          type="number"
+          min={100}
+          max={4000}
+          step={100}
+          defaultValue={ProjectStore.getForUrl(url).imageWidth}
+          onChange={() => setSaved(false)}
+          onBlur={(e) => handleSave(e.target.value)}
+          className="w-32"
+        />
+        {saved && (
+          <span className="flex items-center gap-1 text-sm text-success">
+            <CheckCircle className="w-4 h-4" />
+            Saved for {projectId}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Responsive images are converted from the smallest srcset source at least this wide, applies from the next conversion.
+      </p>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
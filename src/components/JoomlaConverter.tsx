@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,93 +7,418 @@ import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import { Download, Globe, Key, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
-import { FirecrawlService } from '@/utils/firecrawl';
-import { JoomlaConverter as JoomlaConverterUtil } from '@/utils/joomlaConverter';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Download, Globe, Key, Loader2, CheckCircle, AlertCircle, FileText, Package, Code, FileArchive, Square, RotateCcw, Database, Coins, FileJson, Copy } from 'lucide-react';
+import { CrawlJobStore, ScraperError, ScraperRegistry, type CrawlProgress, type ScrapeResult, type ScraperErrorCode, type ScraperSettings, type ScraperUsage, type StoredCrawlJob } from '@/utils/scrapers';
+import { LocalSourceService, type LocalSite } from '@/utils/localSources';
+import { AssetPackager, type AssetManifest, type PackagedAsset } from '@/utils/assets';
+import { DEFAULT_IMAGE_OPTIMIZATION, type ImageOptimizationSettings } from '@/utils/imageOptimizer';
+import { toLess } from '@/utils/pipeline';
+import type { WebsiteData } from '@/utils/joomlaConverter';
+import { SiteConverter, type SiteConversion } from '@/utils/siteConverter';
+import { StylesheetLoader } from '@/utils/stylesheets';
+import { ProjectStore } from '@/utils/projects';
+import { ScrapeCache, type CachedScrape } from '@/utils/scrapeCache';
+import type { CrawlSettings } from '@/utils/crawlSettings';
+import { CrawlSettingsPanel } from './CrawlSettingsPanel';
+import { CacheBrowser } from './CacheBrowser';
+import { RulesEditor } from './RulesEditor';
+import { CredentialVaultPanel } from './CredentialVaultPanel';
+import { ScraperErrorAlert } from './ScraperErrorAlert';
+import { ImageOptimizationPanel } from './ImageOptimizationPanel';
+import { ImageWidthSetting } from './ImageWidthSetting';
+
+type SourceMode = 'url' | 'html' | 'files' | 'zip';
+
+interface ConversionRequest {
+  resumeJob?: StoredCrawlJob;
+  cachedEntry?: CachedScrape;
+  refreshEntry?: CachedScrape;
+}
 
 interface ConversionResult {
   success: boolean;
-  data?: any;
+  partial?: boolean;
+  cachedAt?: string;
+  data?: SiteConversion;
   error?: string;
+  errorCode?: ScraperErrorCode;
 }
 
 export const JoomlaConverter: React.FC = () => {
-  const [apiKey, setApiKey] = useState(FirecrawlService.getApiKey() || '');
+  const [providerId, setProviderId] = useState(ScraperRegistry.getActiveProviderId());
+  const [providerSettings, setProviderSettings] = useState<ScraperSettings>(ScraperRegistry.getSettings(providerId));
   const [url, setUrl] = useState('');
+  const [sourceMode, setSourceMode] = useState<SourceMode>('url');
+  const [pastedHtml, setPastedHtml] = useState('');
+  const [htmlFiles, setHtmlFiles] = useState<File[]>([]);
+  const [zipFile, setZipFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isTestingKey, setIsTestingKey] = useState(false);
-  const [keyValid, setKeyValid] = useState<boolean | null>(null);
+  const [isTestingProvider, setIsTestingProvider] = useState(false);
+  const [settingsValid, setSettingsValid] = useState<boolean | null>(null);
   const [conversionResult, setConversionResult] = useState<ConversionResult | null>(null);
   const [activeTab, setActiveTab] = useState('setup');
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null);
+  const [pendingJob, setPendingJob] = useState<StoredCrawlJob | null>(CrawlJobStore.get());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [useCache, setUseCache] = useState(true);
+  const [cacheVersion, setCacheVersion] = useState(0);
+  // Bumped when crawl settings are saved so the credit estimate picks them up
+  const [, setCrawlSettingsVersion] = useState(0);
+  const [usage, setUsage] = useState<ScraperUsage | null>(null);
+  const [savedOutputError, setSavedOutputError] = useState<string | null>(null);
+  const savedOutputInputRef = useRef<HTMLInputElement>(null);
+  // Images and other files uploaded with a local site, packaged instead of downloaded
+  const [localAssets, setLocalAssets] = useState<Record<string, Blob>>({});
+  const [assetProgress, setAssetProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [assetManifest, setAssetManifest] = useState<AssetManifest | null>(null);
+  const [packagedFiles, setPackagedFiles] = useState<PackagedAsset[]>([]);
+  const [imageOptimization, setImageOptimization] = useState<ImageOptimizationSettings>(DEFAULT_IMAGE_OPTIMIZATION);
+  const [assetError, setAssetError] = useState<string | null>(null);
+
+  const firstLayout = conversionResult?.data && Object.values(conversionResult.data.pages)[0]?.layout;
+  const themeLess = conversionResult?.data ? toLess(SiteConverter.getTheme(conversionResult.data)) : '';
+
+  const provider = ScraperRegistry.getProviders().find(p => p.id === providerId)!;
+  const providerConfigured = ScraperRegistry.isConfigured(provider, providerSettings);
+  const creditEstimate = sourceMode === 'url' && url.trim()
+    ? provider.estimateCredits(ProjectStore.getForUrl(url).crawlSettings)
+    : null;
+  const exceedsCredits = creditEstimate !== null && usage?.remainingCredits !== undefined && creditEstimate > usage.remainingCredits;
+
+  // isCancelled drops the result of a request the settings have moved on from
+  const refreshUsage = useCallback(async (isCancelled: () => boolean = () => false) => {
+    if (providerConfigured) {
+      provider.configure(providerSettings);
+    }
+    const result = providerConfigured ? await provider.getUsage() : null;
+    if (!isCancelled()) {
+      setUsage(result);
+    }
+  }, [provider, providerConfigured, providerSettings]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUsage(null);
+    refreshUsage(() => cancelled).catch(error => console.error('Error reading usage:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshUsage]);
+
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    setProviderSettings(ScraperRegistry.getSettings(id));
+    setSettingsValid(null);
+    ScraperRegistry.setActiveProvider(id);
+  };
+
+  const handleSettingChange = (key: string, value: string) => {
+    setProviderSettings(settings => ({ ...settings, [key]: value }));
+    setSettingsValid(null);
+  };
+
+  // Secrets come from the vault, so re-read them whenever a key is added, picked or locked away
+  const handleCredentialsChange = () => {
+    const secrets = ScraperRegistry.getSettings(providerId);
+    const secretKeys = provider.settingsFields.filter(field => field.secret).map(field => field.key);
+    setProviderSettings(settings => ({
+      ...settings,
+      ...Object.fromEntries(secretKeys.map(key => [key, secrets[key] || '']))
+    }));
+    setSettingsValid(null);
+  };
 
-  const handleApiKeyTest = async () => {
-    if (!apiKey.trim()) return;
+  const handleProviderTest = async () => {
+    if (!providerConfigured) return;
     
-    setIsTestingKey(true);
-    const isValid = await FirecrawlService.testApiKey(apiKey);
-    setKeyValid(isValid);
+    setIsTestingProvider(true);
+    provider.configure(providerSettings);
+    const isValid = await provider.validateCredentials();
+    setSettingsValid(isValid);
     
     if (isValid) {
-      FirecrawlService.saveApiKey(apiKey);
+      ScraperRegistry.saveSettings(providerId, providerSettings);
+      await refreshUsage();
     }
     
-    setIsTestingKey(false);
+    setIsTestingProvider(false);
   };
 
-  const handleConversion = async () => {
-    if (!url.trim() || !apiKey.trim()) return;
+  const canConvert = () => {
+    switch (sourceMode) {
+      case 'url': return !!url.trim() && providerConfigured;
+      case 'html': return !!pastedHtml.trim();
+      case 'files': return htmlFiles.length > 0;
+      case 'zip': return !!zipFile;
+    }
+  };
+
+  const loadLocalSource = async (): Promise<LocalSite> => {
+    switch (sourceMode) {
+      case 'html': return LocalSourceService.fromHtml(pastedHtml, url);
+      case 'files': return LocalSourceService.fromHtmlFiles(htmlFiles);
+      case 'zip': return LocalSourceService.fromZip(zipFile!);
+      default: throw new Error(`Unsupported source: ${sourceMode}`);
+    }
+  };
+
+  const crawlWebsite = async (targetUrl: string, settings: CrawlSettings, resumeJobId?: string): Promise<ScrapeResult<WebsiteData[]>> => {
+    const activeProvider = ScraperRegistry.getActiveProvider();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let partial: SiteConversion | undefined;
+
+    try {
+      return await activeProvider.crawlSite(targetUrl, {
+        settings,
+        signal: controller.signal,
+        resumeJobId,
+        onProgress: (progress) => {
+          setCrawlProgress(progress);
+
+          // Remember the job so it can be resumed after a reload
+          if (progress.jobId && CrawlJobStore.get()?.jobId !== progress.jobId) {
+            CrawlJobStore.save({
+              providerId: activeProvider.id,
+              jobId: progress.jobId,
+              url: targetUrl,
+              startedAt: new Date().toISOString()
+            });
+          }
+
+          // Stream partial results into the converter as they arrive
+          if (progress.pages.length > 0 && progress.status === 'scraping') {
+            partial = SiteConverter.convertSiteToJoomla(progress.pages, partial);
+            setConversionResult({ success: true, partial: true, data: partial });
+          }
+        }
+      });
+    } finally {
+      CrawlJobStore.clear();
+      setPendingJob(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // The cache is an optimisation, a broken IndexedDB must never block a conversion
+  const readCache = async (key: string): Promise<CachedScrape | null> => {
+    try {
+      return await ScrapeCache.get(key);
+    } catch (error) {
+      console.error('Error reading scrape cache:', error);
+      return null;
+    }
+  };
+
+  const writeCache = async (entry: Omit<CachedScrape, 'key' | 'createdAt'>) => {
+    try {
+      await ScrapeCache.put(entry);
+      setCacheVersion(version => version + 1);
+    } catch (error) {
+      console.error('Error writing scrape cache:', error);
+    }
+  };
+
+  const handleConversion = async (request: ConversionRequest = {}) => {
+    const { resumeJob, refreshEntry } = request;
+    let { cachedEntry } = request;
+
+    if (!resumeJob && !cachedEntry && !refreshEntry && !canConvert()) return;
 
     setIsLoading(true);
     setConversionResult(null);
+    setCrawlProgress(null);
 
     try {
-      // Scrape the website
-      const scrapeResult = await FirecrawlService.scrapeWebsite(url);
-      
-      if (!scrapeResult.success) {
-        setConversionResult({
-          success: false,
-          error: scrapeResult.error || 'Failed to scrape website'
-        });
-        return;
+      let pages: WebsiteData[];
+      let assets: Record<string, Blob> = {};
+      let partial = false;
+
+      if (cachedEntry || resumeJob || refreshEntry || sourceMode === 'url') {
+        const targetUrl = cachedEntry?.url || resumeJob?.url || refreshEntry?.url || url;
+        const settings = refreshEntry?.settings || ProjectStore.getForUrl(targetUrl).crawlSettings;
+        const activeProviderId = ScraperRegistry.getActiveProviderId();
+
+        if (!cachedEntry && !resumeJob && !refreshEntry && useCache) {
+          cachedEntry = await readCache(ScrapeCache.getKey(targetUrl, activeProviderId, settings));
+        }
+
+        if (cachedEntry) {
+          pages = cachedEntry.pages;
+        } else {
+          // Scrape the website
+          const scrapeResult = await crawlWebsite(targetUrl, settings, resumeJob?.jobId);
+          
+          if (!scrapeResult.success && !scrapeResult.data?.length) {
+            setConversionResult({
+              success: false,
+              error: scrapeResult.error || 'Failed to scrape website',
+              errorCode: scrapeResult.code
+            });
+            return;
+          }
+
+          // A cancelled or failed crawl still converts the pages it delivered
+          pages = scrapeResult.data;
+          partial = !scrapeResult.success;
+
+          // Cached pages hold their stylesheets inline, so re-converting them needs no network
+          const signal = abortControllerRef.current?.signal;
+          pages = await StylesheetLoader.inlinePages(pages, ScraperRegistry.getActiveProvider(), signal);
+          partial = partial || !!signal?.aborted;
+
+          if (!partial) {
+            await writeCache({ url: targetUrl, providerId: activeProviderId, settings, pages });
+          }
+        }
+      } else {
+        const site = await loadLocalSource();
+        // Theme and background extraction read the linked stylesheets too, downloaded once per site
+        pages = await StylesheetLoader.inlinePages(site.pages, ScraperRegistry.getActiveProvider());
+        assets = site.assets;
       }
 
-      // Convert to YOOtheme format
-      const yoothemeData = JoomlaConverterUtil.convertWebsiteToJoomla(scrapeResult.data);
+      // Convert every page to YOOtheme format
+      const yoothemeData = SiteConverter.convertSiteToJoomla(pages);
+      if (Object.keys(yoothemeData.pages).length === 0) {
+        throw new Error('No pages could be converted, every page needs a valid URL');
+      }
+      setLocalAssets(assets);
+      setAssetManifest(null);
       
       setConversionResult({
         success: true,
+        partial,
+        cachedAt: cachedEntry?.createdAt,
         data: yoothemeData
       });
       
       setActiveTab('result');
     } catch (error) {
+      const scraperError = ScraperError.from(error);
       setConversionResult({
         success: false,
-        error: error instanceof Error ? error.message : 'Conversion failed'
+        error: scraperError.message || 'Conversion failed',
+        errorCode: scraperError.code
       });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setCrawlProgress(null);
+      refreshUsage().catch(error => console.error('Error reading usage:', error));
     }
   };
 
-  const downloadJson = () => {
-    if (!conversionResult?.data) return;
+  const switchProvider = (id: string) => {
+    if (id !== providerId) {
+      handleProviderChange(id);
+    }
+  };
+
+  const handleResume = () => {
+    if (!pendingJob) return;
+
+    switchProvider(pendingJob.providerId);
+    setSourceMode('url');
+    setUrl(pendingJob.url);
+    handleConversion({ resumeJob: pendingJob });
+  };
+
+  const handleReconvert = (entry: CachedScrape) => {
+    setSourceMode('url');
+    setUrl(entry.url);
+    handleConversion({ cachedEntry: entry });
+  };
+
+  const handleRefresh = (entry: CachedScrape) => {
+    switchProvider(entry.providerId);
+    setSourceMode('url');
+    setUrl(entry.url);
+    setActiveTab('convert');
+    handleConversion({ refreshEntry: entry });
+  };
+
+  const handleDiscardJob = () => {
+    CrawlJobStore.clear();
+    setPendingJob(null);
+  };
 
-    const blob = new Blob([JSON.stringify(conversionResult.data)], {
-      type: 'application/json'
-    });
+  const downloadJson = (data: unknown, filename: string) => {
+    downloadBlob(new Blob([JSON.stringify(data)], { type: 'application/json' }), filename);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'yootheme-conversion.json';
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const downloadPage = (pageUrl: string) => {
+    const page = conversionResult?.data?.pages[pageUrl];
+    if (!page) return;
+
+    const slug = new URL(pageUrl).pathname.split('/').filter(Boolean).join('-') || 'home';
+    downloadJson(page.layout, `yootheme-${slug}.json`);
+  };
+
+  const handleOpenSaved = async (file: File) => {
+    setSavedOutputError(null);
+    try {
+      const data = SiteConverter.fromSaved(JSON.parse(await file.text()), `file:///${file.name}`);
+      setConversionResult({ success: true, data });
+      setLocalAssets({});
+      setAssetManifest(null);
+    } catch (error) {
+      setSavedOutputError(`Could not open ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const downloadBundle = () => {
+    if (!conversionResult?.data) return;
+    downloadJson(conversionResult.data, 'yootheme-site.json');
+  };
+
+  // Downloads the referenced files into a ZIP for Joomla's images folder, the layouts then
+  // point at the packaged copies so bundles downloaded afterwards match the ZIP
+  const downloadAssets = async () => {
+    if (!conversionResult?.data) return;
+
+    setAssetError(null);
+    setAssetManifest(null);
+    setAssetProgress({ completed: 0, total: 0 });
+
+    try {
+      const bundle = await AssetPackager.package(conversionResult.data, {
+        provider: ScraperRegistry.getActiveProvider(),
+        files: localAssets,
+        optimize: imageOptimization,
+        onProgress: (completed, total) => setAssetProgress({ completed, total })
+      });
+
+      setConversionResult({ ...conversionResult, data: bundle.conversion });
+      setAssetManifest(bundle.manifest);
+      setPackagedFiles(bundle.files);
+      downloadBlob(bundle.zip, 'yootheme-images.zip');
+    } catch (error) {
+      setAssetError(`Could not package assets: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setAssetProgress(null);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       <div className="container mx-auto px-4 py-8">
@@ -108,7 +433,7 @@ export const JoomlaConverter: React.FC = () => {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="max-w-4xl mx-auto">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="setup" className="flex items-center gap-2">
               <Key className="w-4 h-4" />
               Setup
@@ -121,6 +446,10 @@ export const JoomlaConverter: React.FC = () => {
               <Download className="w-4 h-4" />
               Result
             </TabsTrigger>
+            <TabsTrigger value="cache" className="flex items-center gap-2">
+              <Database className="w-4 h-4" />
+              Cache
+            </TabsTrigger>
           </TabsList>
 
           {/* Setup Tab */}
@@ -129,70 +458,116 @@ export const JoomlaConverter: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Key className="w-5 h-5 text-primary" />
-                  Firecrawl API Setup
+                  Scraper Setup
                 </CardTitle>
                 <CardDescription>
-                  Configure your Firecrawl API key to start converting websites
+                  Choose how websites are fetched and configure the provider to start converting
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="apiKey">Firecrawl API Key</Label>
-                  <div className="flex gap-2">
-                    <Input
-                      id="apiKey"
-                      type="password"
-                      placeholder="fc-..."
-                      value={apiKey}
-                      onChange={(e) => {
-                        setApiKey(e.target.value);
-                        setKeyValid(null);
-                      }}
-                      className="flex-1"
+                  <Label htmlFor="provider">Scraper Provider</Label>
+                  <Select value={providerId} onValueChange={handleProviderChange}>
+                    <SelectTrigger id="provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ScraperRegistry.getProviders().map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">{provider.description}</p>
+                </div>
+
+                <div className="space-y-4">
+                  {provider.settingsFields.map(field => field.secret ? (
+                    <CredentialVaultPanel
+                      key={field.key}
+                      providerId={providerId}
+                      field={field}
+                      onChange={handleCredentialsChange}
                     />
-                    <Button 
-                      onClick={handleApiKeyTest}
-                      disabled={!apiKey.trim() || isTestingKey}
-                      variant="outline"
-                    >
-                      {isTestingKey ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <div key={field.key} className="space-y-2">
+                      <Label htmlFor={field.key}>{field.label}</Label>
+                      {field.type === 'textarea' ? (
+                        <Textarea
+                          id={field.key}
+                          placeholder={field.placeholder}
+                          value={providerSettings[field.key] || ''}
+                          onChange={(e) => handleSettingChange(field.key, e.target.value)}
+                          className="h-32 font-mono text-xs"
+                        />
                       ) : (
-                        'Test'
+                        <Input
+                          id={field.key}
+                          type={field.type}
+                          placeholder={field.placeholder}
+                          value={providerSettings[field.key] || ''}
+                          onChange={(e) => handleSettingChange(field.key, e.target.value)}
+                        />
                       )}
-                    </Button>
-                  </div>
-                  {keyValid === true && (
+                      {field.description && (
+                        <p className="text-xs text-muted-foreground">{field.description}</p>
+                      )}
+                    </div>
+                  ))}
+
+                  <Button 
+                    onClick={handleProviderTest}
+                    disabled={!providerConfigured || isTestingProvider}
+                    variant="outline"
+                  >
+                    {isTestingProvider ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      'Test & Save'
+                    )}
+                  </Button>
+                  {settingsValid === true && (
                     <div className="flex items-center gap-2 text-success">
                       <CheckCircle className="w-4 h-4" />
-                      <span className="text-sm">API key is valid</span>
+                      <span className="text-sm">{provider.name} is configured correctly</span>
                     </div>
                   )}
-                  {keyValid === false && (
+                  {settingsValid === false && (
                     <div className="flex items-center gap-2 text-destructive">
                       <AlertCircle className="w-4 h-4" />
-                      <span className="text-sm">Invalid API key</span>
+                      <span className="text-sm">Invalid {provider.name} settings</span>
+                    </div>
+                  )}
+                  {usage && (usage.remainingCredits !== undefined || !!usage.usedCredits) && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Coins className="w-4 h-4" />
+                      <span className="text-sm">
+                        {usage.remainingCredits !== undefined && `${usage.remainingCredits.toLocaleString()} credits remaining`}
+                        {usage.remainingCredits !== undefined && !!usage.usedCredits && ', '}
+                        {!!usage.usedCredits && `${usage.usedCredits.toLocaleString()} used this session`}
+                      </span>
                     </div>
                   )}
                 </div>
 
-                <Alert>
-                  <AlertCircle className="h-4 w-4" />
-                  <AlertDescription>
-                    Get your free API key from{' '}
-                    <a 
-                      href="https://firecrawl.dev" 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="text-primary hover:underline"
-                    >
-                      firecrawl.dev
-                    </a>
-                    . Free tier includes 500 credits per month.
-                  </AlertDescription>
-                </Alert>
-
-                {keyValid === true && (
+                {providerId === 'firecrawl' && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Get your free API key from{' '}
+                      <a 
+                        href="https://firecrawl.dev" 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        firecrawl.dev
+                      </a>
+                      . Free tier includes 500 credits per month.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {settingsValid === true && (
                   <Button 
                     onClick={() => setActiveTab('convert')}
                     className="w-full"
@@ -213,24 +588,138 @@ export const JoomlaConverter: React.FC = () => {
                   Website Conversion
                 </CardTitle>
                 <CardDescription>
-                  Enter the website URL you want to convert to YOOtheme format
+                  Enter a website URL, or provide the HTML directly to convert without an API key
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="url">Website URL</Label>
-                  <Input
-                    id="url"
-                    type="url"
-                    placeholder="https://example.com"
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                  />
-                </div>
+                <Tabs value={sourceMode} onValueChange={(value) => setSourceMode(value as SourceMode)}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="url" className="flex items-center gap-2">
+                      <Globe className="w-4 h-4" />
+                      URL
+                    </TabsTrigger>
+                    <TabsTrigger value="html" className="flex items-center gap-2">
+                      <Code className="w-4 h-4" />
+                      Paste HTML
+                    </TabsTrigger>
+                    <TabsTrigger value="files" className="flex items-center gap-2">
+                      <FileText className="w-4 h-4" />
+                      HTML Files
+                    </TabsTrigger>
+                    <TabsTrigger value="zip" className="flex items-center gap-2">
+                      <FileArchive className="w-4 h-4" />
+                      ZIP Archive
+                    </TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="url" className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="url">Website URL</Label>
+                      <Input
+                        id="url"
+                        type="url"
+                        placeholder="https://example.com"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                      />
+                    </div>
+                    <CrawlSettingsPanel url={url} onSave={() => setCrawlSettingsVersion(version => version + 1)} />
+                    <div className="flex items-center gap-2">
+                      <Switch id="useCache" checked={useCache} onCheckedChange={setUseCache} />
+                      <Label htmlFor="useCache">Reuse cached scrape when available</Label>
+                    </div>
+                  </TabsContent>
+
+                  <TabsContent value="html" className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="pastedHtml">HTML Source</Label>
+                      <Textarea
+                        id="pastedHtml"
+                        placeholder="<!DOCTYPE html>..."
+                        value={pastedHtml}
+                        onChange={(e) => setPastedHtml(e.target.value)}
+                        className="h-40 font-mono text-xs"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="pastedUrl">Original URL (optional)</Label>
+                      <Input
+                        id="pastedUrl"
+                        type="url"
+                        placeholder="https://example.com/page"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                      />
+                    </div>
+                  </TabsContent>
+
+                  <TabsContent value="files" className="space-y-2">
+                    <Label htmlFor="htmlFiles">HTML Files</Label>
+                    <Input
+                      id="htmlFiles"
+                      type="file"
+                      accept=".html,.htm,text/html"
+                      multiple
+                      onChange={(e) => setHtmlFiles(Array.from(e.target.files || []))}
+                    />
+                    {htmlFiles.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {htmlFiles.length} file{htmlFiles.length === 1 ? '' : 's'} selected
+                      </p>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="zip" className="space-y-2">
+                    <Label htmlFor="zipFile">Static Site Archive</Label>
+                    <Input
+                      id="zipFile"
+                      type="file"
+                      accept=".zip,application/zip"
+                      onChange={(e) => setZipFile(e.target.files?.[0] || null)}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Every .html file in the archive becomes a page. Local stylesheets are inlined and images are kept with the project.
+                    </p>
+                  </TabsContent>
+                </Tabs>
+
+                <ImageWidthSetting url={url} />
+
+                <RulesEditor
+                  url={url}
+                  matches={conversionResult?.data ? SiteConverter.getRuleMatches(conversionResult.data) : []}
+                />
+
+                {creditEstimate !== null && (
+                  <div className={`flex items-center gap-2 text-sm ${exceedsCredits ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    <Coins className="w-4 h-4" />
+                    <span>
+                      This crawl can use up to {creditEstimate.toLocaleString()} credits
+                      {usage?.remainingCredits !== undefined && ` of ${usage.remainingCredits.toLocaleString()} remaining`}
+                      {useCache && ', or none if a cached scrape is reused'}.
+                      {exceedsCredits && ' Lower the page limit, or the crawl stops when the credits run out.'}
+                    </span>
+                  </div>
+                )}
+
+                {pendingJob && !isLoading && (
+                  <Alert>
+                    <RotateCcw className="h-4 w-4" />
+                    <AlertDescription className="flex items-center justify-between gap-2">
+                      <span>
+                        An unfinished crawl of {pendingJob.url} was started {new Date(pendingJob.startedAt).toLocaleString()}.
+                      </span>
+                      <span className="flex gap-2 shrink-0">
+                        <Button size="sm" onClick={handleResume}>Resume</Button>
+                        <Button size="sm" variant="outline" onClick={handleDiscardJob}>Discard</Button>
+                      </span>
+                    </AlertDescription>
+                  </Alert>
+                )}
 
                 <Button 
-                  onClick={handleConversion}
-                  disabled={!url.trim() || !apiKey.trim() || isLoading}
+                  onClick={() => handleConversion()}
+                  disabled={!canConvert() || isLoading}
                   className="w-full"
                   size="lg"
                 >
@@ -247,13 +736,31 @@ export const JoomlaConverter: React.FC = () => {
                   )}
                 </Button>
 
+                {isLoading && crawlProgress && (
+                  <div className="space-y-2">
+                    <Progress value={crawlProgress.discovered ? (crawlProgress.completed / crawlProgress.discovered) * 100 : 0} />
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-muted-foreground">
+                        {crawlProgress.completed} of {crawlProgress.discovered || '?'} pages crawled
+                        {crawlProgress.pages.length > 0 && `, ${crawlProgress.pages.length} converted so far`}
+                      </span>
+                      <div className="flex gap-2">
+                        {conversionResult?.partial && (
+                          <Button size="sm" variant="ghost" onClick={() => setActiveTab('result')}>
+                            View partial results
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={handleCancel}>
+                          <Square className="w-4 h-4 mr-2" />
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {conversionResult && !conversionResult.success && (
-                  <Alert variant="destructive">
-                    <AlertCircle className="h-4 w-4" />
-                    <AlertDescription>
-                      {conversionResult.error}
-                    </AlertDescription>
-                  </Alert>
+                  <ScraperErrorAlert code={conversionResult.errorCode} message={conversionResult.error} />
                 )}
               </CardContent>
             </Card>
@@ -277,38 +784,70 @@ export const JoomlaConverter: React.FC = () => {
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
                         <CheckCircle className="w-5 h-5 text-success" />
-                        <span className="font-medium">Conversion Successful</span>
+                        <span className="font-medium">
+                          {conversionResult.partial ? 'Partial Conversion' : 'Conversion Successful'}
+                        </span>
+                        {conversionResult.cachedAt && (
+                          <Badge variant="outline">
+                            Cached {new Date(conversionResult.cachedAt).toLocaleString()}
+                          </Badge>
+                        )}
                       </div>
                       <Badge variant="secondary">
-                        {conversionResult.data?.yootheme?.builder_config?.sections?.length || 0} Sections
+                        {conversionResult.data?.manifest.pages.length || 0} Pages
                       </Badge>
                     </div>
 
                     <Separator />
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                       <div className="space-y-2">
                         <Label className="text-sm font-medium">Joomla Version</Label>
+                        <p className="text-sm text-muted-foreground">{firstLayout?.joomlaVersion}</p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">YOOtheme Version</Label>
                         <p className="text-sm text-muted-foreground">
-                          {conversionResult.data?.joomla_version}
+                          {firstLayout && `${firstLayout.yootheme.template} ${firstLayout.yootheme.version}`}
                         </p>
                       </div>
                       <div className="space-y-2">
-                        <Label className="text-sm font-medium">YOOtheme Version</Label>
+                        <Label className="text-sm font-medium">Sections</Label>
                         <p className="text-sm text-muted-foreground">
-                          {conversionResult.data?.yootheme?.version}
+                          {conversionResult.data ? SiteConverter.getSectionCount(conversionResult.data) : 0}
                         </p>
                       </div>
                       <div className="space-y-2">
-                        <Label className="text-sm font-medium">Images Found</Label>
+                        <Label className="text-sm font-medium">Images</Label>
                         <p className="text-sm text-muted-foreground">
-                          {conversionResult.data?.assets?.images?.length || 0} images
+                          {conversionResult.data ? SiteConverter.getImages(conversionResult.data).length : 0}
                         </p>
                       </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                       <div className="space-y-2">
-                        <Label className="text-sm font-medium">Template</Label>
+                        <Label className="text-sm font-medium">CSS Framework</Label>
                         <p className="text-sm text-muted-foreground">
-                          {conversionResult.data?.yootheme?.template}
+                          {(conversionResult.data && SiteConverter.getFrameworks(conversionResult.data).join(', ')) || 'None detected'}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Page Builder</Label>
+                        <p className="text-sm text-muted-foreground">
+                          {(conversionResult.data && SiteConverter.getBuilders(conversionResult.data).join(', ')) || 'None detected'}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Source</Label>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {conversionResult.data?.manifest.source}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Converted</Label>
+                        <p className="text-sm text-muted-foreground">
+                          {conversionResult.data && new Date(conversionResult.data.manifest.generated).toLocaleString()}
                         </p>
                       </div>
                     </div>
@@ -316,18 +855,78 @@ export const JoomlaConverter: React.FC = () => {
                     <Separator />
 
                     <div className="space-y-2">
-                      <Label className="text-sm font-medium">Preview JSON Structure</Label>
+                      <Label className="text-sm font-medium">Pages</Label>
+                      <div className="border rounded-md divide-y max-h-72 overflow-y-auto">
+                        {conversionResult.data?.manifest.pages.map(page => (
+                          <div
+                            key={page.url}
+                            className="flex items-center justify-between gap-2 px-3 py-2"
+                            style={{ paddingLeft: `${0.75 + SiteConverter.getPageDepth(conversionResult.data!.manifest, page.url) * 1.25}rem` }}
+                          >
+                            <div className="flex items-center gap-2 min-w-0">
+                              <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+                              <div className="min-w-0">
+                                <p className="text-sm font-medium truncate">{page.title}</p>
+                                <p className="text-xs text-muted-foreground truncate">{page.path}</p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                              <Badge variant="outline">
+                                {conversionResult.data?.pages[page.url]?.layout.layout.children.length || 0} Sections
+                              </Badge>
+                              <Button variant="ghost" size="sm" onClick={() => downloadPage(page.url)}>
+                                <Download className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Preview Site Manifest</Label>
                       <Textarea
-                        value={JSON.stringify(conversionResult.data)}
+                        value={JSON.stringify(conversionResult.data?.manifest)}
                         readOnly
                         className="h-40 font-mono text-xs"
                       />
                     </div>
 
+                    {themeLess && (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm font-medium">Theme Style (LESS)</Label>
+                          <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(themeLess)}>
+                            <Copy className="w-4 h-4 mr-2" />
+                            Copy
+                          </Button>
+                        </div>
+                        <Textarea value={themeLess} readOnly className="h-40 font-mono text-xs" />
+                        <p className="text-xs text-muted-foreground">
+                          Paste into the YOOtheme customizer's Style settings to match the source site's colors, fonts and sizes.
+                        </p>
+                      </div>
+                    )}
+
+                    <ImageOptimizationPanel
+                      settings={imageOptimization}
+                      onChange={setImageOptimization}
+                      disabled={!!assetProgress}
+                      files={assetManifest ? packagedFiles : undefined}
+                    />
+
                     <div className="flex gap-2">
-                      <Button onClick={downloadJson} className="flex-1">
-                        <Download className="w-4 h-4 mr-2" />
-                        Download JSON
+                      <Button onClick={downloadBundle} className="flex-1">
+                        <Package className="w-4 h-4 mr-2" />
+                        Download Bundle
+                      </Button>
+                      <Button variant="outline" onClick={downloadAssets} disabled={!!assetProgress}>
+                        {assetProgress ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <FileArchive className="w-4 h-4 mr-2" />
+                        )}
+                        {assetProgress ? `Packaging ${assetProgress.completed}/${assetProgress.total}` : 'Package Assets'}
                       </Button>
                       <Button 
                         variant="outline" 
@@ -340,6 +939,20 @@ export const JoomlaConverter: React.FC = () => {
                         Convert Another
                       </Button>
                     </div>
+
+                    {assetManifest && (
+                      <p className="text-sm text-muted-foreground">
+                        {Object.keys(assetManifest.assets).length} files packaged into images/{AssetPackager.ASSET_FOLDER}
+                        {Object.keys(assetManifest.failed).length > 0 && (
+                          <span className="text-destructive" title={Object.entries(assetManifest.failed).map(([url, error]) => `${url}: ${error}`).join('\n')}>
+                            {' '}· {Object.keys(assetManifest.failed).length} could not be downloaded and keep their original URL
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    {assetError && (
+                      <p className="text-sm text-destructive">{assetError}</p>
+                    )}
                   </>
                 ) : (
                   <div className="text-center py-8">
@@ -347,18 +960,60 @@ export const JoomlaConverter: React.FC = () => {
                     <p className="text-muted-foreground">
                       No conversion result available. Please convert a website first.
                     </p>
-                    <Button 
-                      variant="outline" 
-                      onClick={() => setActiveTab('convert')}
-                      className="mt-4"
-                    >
-                      Start Conversion
-                    </Button>
+                    <div className="flex justify-center gap-2 mt-4">
+                      <Button 
+                        variant="outline" 
+                        onClick={() => setActiveTab('convert')}
+                      >
+                        Start Conversion
+                      </Button>
+                      <Button variant="outline" onClick={() => savedOutputInputRef.current?.click()}>
+                        <FileJson className="w-4 h-4 mr-2" />
+                        Open Saved Output
+                      </Button>
+                    </div>
+                    <input
+                      ref={savedOutputInputRef}
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleOpenSaved(file);
+                      }}
+                    />
+                    {savedOutputError && (
+                      <p className="text-sm text-destructive mt-4">{savedOutputError}</p>
+                    )}
                   </div>
                 )}
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Cache Tab */}
+          <TabsContent value="cache">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Database className="w-5 h-5 text-primary" />
+                  Scrape Cache
+                </CardTitle>
+                <CardDescription>
+                  Re-run conversions from stored scrapes without spending credits
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CacheBrowser
+                  version={cacheVersion}
+                  disabled={isLoading}
+                  onReconvert={handleReconvert}
+                  onRefresh={handleRefresh}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { CheckCircle, ChevronDown, ListChecks } from 'lucide-react';
+import { EXAMPLE_RULES, mappingRuleSetSchema, sortRules, type MappingRule } from '@/utils/mappingRules';
+import { ProjectStore } from '@/utils/projects';
+import type { PageRuleMatch } from '@/utils/siteConverter';
+
+interface RulesEditorProps {
+  url: string;
+  matches: PageRuleMatch[];
+}
+
+const toJson = (rules: MappingRule[]) => (rules.length > 0 ? JSON.stringify(rules, null, 2) : '');
+
+const getPagePath = (url: string) => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+export const RulesEditor: React.FC<RulesEditorProps> = ({ url, matches }) => {
+  const projectId = ProjectStore.getProjectId(url);
+  const [isOpen, setIsOpen] = useState(false);
+  const [rules, setRules] = useState<MappingRule[]>(() => ProjectStore.getForUrl(url).rules);
+  const [source, setSource] = useState(() => toJson(rules));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<string | null>(null);
+  const [loadedProjectId, setLoadedProjectId] = useState(projectId);
+
+  // Load the saved rules while rendering whenever the URL points at a different site
+  if (loadedProjectId !== projectId) {
+    const projectRules = ProjectStore.getForUrl(url).rules;
+    setLoadedProjectId(projectId);
+    setRules(projectRules);
+    setSource(toJson(projectRules));
+    setErrors([]);
+    setSaved(false);
+  }
+
+  const handleSave = () => {
+    let parsed: unknown;
+    try {
+      parsed = source.trim() ? JSON.parse(source) : [];
+    } catch (error) {
+      setErrors([`Invalid JSON: ${error instanceof Error ? error.message : error}`]);
+      return;
+    }
+
+    const result = mappingRuleSetSchema.safeParse(parsed);
+    if (!result.success) {
+      setErrors(result.error.issues.map(issue =>
+        issue.path.length > 0 ? `Rule ${issue.path.join('.')}: ${issue.message}` : issue.message
+      ));
+      return;
+    }
+
+    ProjectStore.save({ ...ProjectStore.getForUrl(url), rules: result.data });
+    setRules(result.data);
+    setSource(toJson(result.data));
+    setErrors([]);
+    setSaved(true);
+  };
+
+  const handleExample = () => {
+    setSource(toJson(EXAMPLE_RULES));
+    setSaved(false);
+  };
+
+  const matchesFor = (ruleId: string) => matches.filter(match => match.ruleId === ruleId);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-md">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium">
+          <span className="flex items-center gap-2">
+            <ListChecks className="w-4 h-4" />
+            Mapping Rules
+            <span className="font-normal text-muted-foreground">
+              ({rules.length} rule{rules.length === 1 ? '' : 's'}, {projectId})
+            </span>
+          </span>
+          <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-3 pb-3">
+        <div className="space-y-2">
+          <Label htmlFor="mappingRules">Rules (JSON)</Label>
+          <Textarea
+            id="mappingRules"
+            placeholder='[{ "id": "cta", "selector": ".cta", "element": "button", "priority": 10, "mappings": [{ "prop": "content", "source": "text" }] }]'
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value);
+              setSaved(false);
+            }}
+            className="h-48 font-mono text-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            Nodes matching a rule's selector become its YOOtheme element. Mappings copy text, html, an attribute or a class
+            (optionally through a regex pattern) into props. Higher priority rules claim nodes first.
+          </p>
+          {errors.map(error => (
+            <p key={error} className="text-xs text-destructive">{error}</p>
+          ))}
+        </div>
+
+        {rules.length > 0 && (
+          <div className="border rounded-md divide-y">
+            {sortRules(rules).map(rule => {
+              const ruleMatches = matchesFor(rule.id);
+              const isSelected = selectedRule === rule.id;
+
+              return (
+                <div key={rule.id} className="px-3 py-2 space-y-2">
+                  <button
+                    type="button"
+                    className="flex w-full items-center justify-between gap-2 text-left"
+                    onClick={() => setSelectedRule(isSelected ? null : rule.id)}
+                  >
+                    <span className="min-w-0">
+                      <span className="text-sm font-medium">{rule.name || rule.id}</span>
+                      <span className="block text-xs text-muted-foreground font-mono truncate">
+                        {rule.selector} → {rule.element}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      <Badge variant="outline">Priority {rule.priority}</Badge>
+                      <Badge variant={ruleMatches.length > 0 ? 'secondary' : 'outline'}>
+                        {ruleMatches.length} match{ruleMatches.length === 1 ? '' : 'es'}
+                      </Badge>
+                    </span>
+                  </button>
+                  {isSelected && (
+                    ruleMatches.length > 0 ? (
+                      <div className="space-y-1 max-h-48 overflow-y-auto">
+                        {ruleMatches.map((match, index) => (
+                          <div key={`${match.pageUrl}-${match.path}-${index}`} className="text-xs">
+                            <p className="text-muted-foreground truncate">
+                              {getPagePath(match.pageUrl)} · {match.path}
+                            </p>
+                            <code className="block truncate rounded bg-primary/10 px-1 py-0.5">{match.snippet}</code>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        No nodes matched on the last conversion.
+                      </p>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button type="button" size="sm" onClick={handleSave}>
+            Save for {projectId}
+          </Button>
+          {!source.trim() && (
+            <Button type="button" size="sm" variant="outline" onClick={handleExample}>
+              Load Example
+            </Button>
+          )}
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-success">
+              <CheckCircle className="w-4 h-4" />
+              Saved, applies to the next conversion
+            </span>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
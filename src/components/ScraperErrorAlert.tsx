@@ -0,0 +1,80 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle } from 'lucide-react';
+import type { ScraperErrorCode } from '@/utils/scrapers';
+
+interface ScraperErrorAlertProps {
+  code?: ScraperErrorCode;
+  message?: string;
+}
+
+const ERROR_DETAILS: Record<ScraperErrorCode, { title: string; explanation: string; remediation: string }> = {
+  auth_failed: {
+    title: 'Authentication failed',
+    explanation: 'The scraper provider rejected the credentials.',
+    remediation: 'Check the API key in the Setup tab and run Test & Save again.'
+  },
+  rate_limited: {
+    title: 'Rate limited',
+    explanation: 'Too many requests were sent in a short time, and retrying did not help.',
+    remediation: 'Wait a minute before converting again, or lower the page limit in the crawl settings.'
+  },
+  quota_exhausted: {
+    title: 'Credits exhausted',
+    explanation: 'The account has no credits left for this billing period.',
+    remediation: 'Top up or upgrade the Firecrawl plan, switch to another key, or convert from the cache or local files instead.'
+  },
+  timeout: {
+    title: 'Request timed out',
+    explanation: 'The site or the provider did not respond in time, even after retrying.',
+    remediation: 'Try again later, or lower the wait time in the crawl settings for slow sites.'
+  },
+  blocked_by_robots: {
+    title: 'Blocked by robots.txt',
+    explanation: "The site's robots.txt does not allow crawling these pages.",
+    remediation: "Ask the site owner for an export and use the ZIP or HTML file input, or narrow the include paths to allowed sections."
+  },
+  dns_failure: {
+    title: 'Domain not found',
+    explanation: 'The domain name could not be resolved.',
+    remediation: 'Check the URL for typos. Sites behind a VPN need the Direct Fetch provider running inside that network.'
+  },
+  parse_failure: {
+    title: 'Unreadable response',
+    explanation: 'The response could not be parsed.',
+    remediation: 'Check the fixture JSON or proxy output, then try again.'
+  },
+  empty_content: {
+    title: 'No content',
+    explanation: 'The crawl finished but did not return any HTML.',
+    remediation: 'Check that the URL is publicly reachable and that the include paths match real pages.'
+  },
+  cancelled: {
+    title: 'Crawl cancelled',
+    explanation: 'The crawl was stopped before any page was delivered.',
+    remediation: 'Start the conversion again when ready.'
+  },
+  unknown: {
+    title: 'Conversion failed',
+    explanation: 'An unexpected error occurred.',
+    remediation: 'Try again. If the problem persists, check the browser console for details.'
+  }
+};
+
+export const ScraperErrorAlert: React.FC<ScraperErrorAlertProps> = ({ code = 'unknown', message }) => {
+  const details = ERROR_DETAILS[code] || ERROR_DETAILS.unknown;
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{details.title}</AlertTitle>
+      <AlertDescription className="space-y-1">
+        <p>{code === 'unknown' && message ? message : details.explanation}</p>
+        <p>{details.remediation}</p>
+        {code !== 'unknown' && message && (
+          <p className="text-xs opacity-75">{message}</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,303 @@
+import JSZip from 'jszip';
+import { ImageOptimizer, type ImageOptimizationSettings, type OptimizedImage } from './imageOptimizer';
+import type { LayoutElement, LayoutOutput } from './layoutSchema';
+import { ScraperError, type ScraperProvider } from './scrapers';
+import type { PageConversion, SiteConversion } from './siteConverter';
+
+export interface AssetManifest {
+  generated: string;
+  // Original URL → path relative to the Joomla root
+  assets: Record<string, string>;
+  // Original URL → why it wasn't packaged, references to it keep the original URL
+  failed: Record<string, string>;
+}
+
+export interface PackagedAsset {
+  url: string;
+  path: string;
+  originalSize: number;
+  size: number;
+  // Pixel size of images that were optimized
+  width?: number;
+  height?: number;
+  // Why an image that should have been optimized was packaged unchanged
+  optimizeError?: string;
+}
+
+export interface AssetBundle {
+  manifest: AssetManifest;
+  files: PackagedAsset[];
+  // The conversion with every packaged reference pointing at its Joomla path
+  conversion: SiteConversion;
+  zip: Blob;
+}
+
+export interface AssetPackageOptions {
+  provider?: ScraperProvider;
+  // Files of an uploaded site, keyed by their file:/// URL
+  files?: Record<string, Blob>;
+  optimize?: ImageOptimizationSettings;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export class AssetPackager {
+  // The ZIP is extracted into Joomla's images folder
+  static JOOMLA_FOLDER = 'images';
+  static ASSET_FOLDER = 'converted';
+
+  private static CONCURRENCY = 4;
+  // Props that always hold a file, the other URL props only when the URL points at one
+  private static MEDIA_PROPS = ['image', 'poster'];
+  private static URL_PROPS = ['image', 'poster', 'video', 'link'];
+  private static FILE_PATTERN = /\.(jpe?g|png|gif|webp|avif|svg|ico|bmp|mp4|webm|ogv|mov|mp3|ogg|wav|pdf)$/i;
+  private static EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/svg+xml': 'svg',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'application/pdf': 'pdf'
+  };
+
+  // Downloads every file the layouts reference into a ZIP and points the layouts at the packaged copies
+  static async package(conversion: SiteConversion, options: AssetPackageOptions = {}): Promise<AssetBundle> {
+    const urls = this.collectUrls(conversion);
+    const queue = [...urls];
+    const results = new Map<string, PackagedAsset | { error: string }>();
+    const zip = new JSZip();
+
+    options.onProgress?.(0, urls.length);
+
+    const worker = async () => {
+      while (queue.length > 0 && !options.signal?.aborted) {
+        const url = queue.shift()!;
+        try {
+          const original = await this.fetchAsset(url, options);
+          const { image, error: optimizeError } = await this.optimizeImage(original, options.optimize);
+          const blob = image?.blob || original;
+          const name = await this.getFileName(url, blob);
+          zip.file(`${this.ASSET_FOLDER}/${name}`, blob);
+          results.set(url, {
+            url,
+            path: `${this.JOOMLA_FOLDER}/${this.ASSET_FOLDER}/${name}`,
+            originalSize: original.size,
+            size: blob.size,
+            ...(image && { width: image.width, height: image.height }),
+            ...(optimizeError && { optimizeError })
+          });
+        } catch (error) {
+          results.set(url, { error: error instanceof Error ? error.message : String(error) });
+        }
+        options.onProgress?.(results.size, urls.length);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.CONCURRENCY, urls.length) }, worker));
+
+    if (options.signal?.aborted) {
+      throw new ScraperError('cancelled', 'Asset download cancelled');
+    }
+
+    // Downloads finish in any order, the manifest lists them in the order the pages reference them
+    const manifest: AssetManifest = { generated: new Date().toISOString(), assets: {}, failed: {} };
+    const files: PackagedAsset[] = [];
+    urls.forEach(url => {
+      const result = results.get(url)!;
+      if ('path' in result) {
+        manifest.assets[url] = result.path;
+        files.push(result);
+      } else {
+        manifest.failed[url] = result.error;
+      }
+    });
+
+    zip.file(`${this.ASSET_FOLDER}/manifest.json`, JSON.stringify(manifest, null, 2));
+
+    return {
+      manifest,
+      files,
+      conversion: this.rewrite(conversion, manifest, files),
+      zip: await zip.generateAsync({ type: 'blob' })
+    };
+  }
+
+  // Absolute URLs of the files the pages reference, each once
+  static collectUrls(conversion: SiteConversion): string[] {
+    const urls = new Set<string>();
+    Object.values(conversion.pages).forEach(page => {
+      this.mapReferences(page, url => {
+        urls.add(url);
+        return null;
+      });
+    });
+    return Array.from(urls);
+  }
+
+  // Optimized images also get their width and height props fitted to the processed file
+  static rewrite(conversion: SiteConversion, manifest: AssetManifest, files: PackagedAsset[] = []): SiteConversion {
+    const sizes = new Map(files.filter(file => file.width && file.height).map(file => [file.url, file]));
+
+    return {
+      ...conversion,
+      pages: Object.fromEntries(Object.entries(conversion.pages).map(([url, page]) => [
+        url,
+        { ...page, layout: this.mapReferences(page, asset => manifest.assets[asset] || null, sizes) }
+      ]))
+    };
+  }
+
+  // A copy of the page's layout with each file reference replaced by what map returns for its
+  // absolute URL, null keeps the reference
+  private static mapReferences(
+    page: PageConversion,
+    map: (url: string) => string | null,
+    sizes = new Map<string, PackagedAsset>()
+  ): LayoutOutput {
+    const resolve = (ref: string, isMedia: boolean) => {
+      const url = this.toAssetUrl(ref, page.url, isMedia);
+      return url ? map(url) : null;
+    };
+
+    const mapElement = (element: LayoutElement): LayoutElement => {
+      const props = Object.fromEntries(Object.entries(element.props).map(([key, value]) => [key, this.mapProp(key, value, resolve)]));
+      const image = typeof element.props.image === 'string' && this.toAssetUrl(element.props.image, page.url, true);
+      const size = image && sizes.get(image);
+
+      return {
+        ...element,
+        props: size ? this.fitImageSize(props, size.width!, size.height!) : props,
+        children: element.children.map(mapElement)
+      };
+    };
+
+    const { layout, assets } = page.layout;
+    return {
+      ...page.layout,
+      layout: { ...layout, children: layout.children.map(mapElement) },
+      assets: {
+        ...assets,
+        images: assets.images.map(image => resolve(image, true) || image),
+        styles: this.mapEmbedded(assets.styles, ref => resolve(ref, false))
+      }
+    };
+  }
+
+  // The width and height the page showed the image at, no larger than the processed file and
+  // in its aspect ratio. Images without a size of their own are left to their natural size
+  private static fitImageSize(props: Record<string, unknown>, width: number, height: number): Record<string, unknown> {
+    const shownWidth = parseInt(String(props.image_width ?? ''));
+    const shownHeight = parseInt(String(props.image_height ?? ''));
+    if (!shownWidth && !shownHeight) return props;
+
+    const fittedWidth = shownWidth
+      ? Math.min(shownWidth, width)
+      : Math.round(Math.min(shownHeight, height) * width / height);
+
+    return {
+      ...props,
+      image_width: String(fittedWidth),
+      image_height: String(Math.round(fittedWidth * height / width))
+    };
+  }
+
+  private static mapProp(key: string, value: unknown, resolve: (ref: string, isMedia: boolean) => string | null): unknown {
+    if (typeof value !== 'string') return value;
+    if (this.URL_PROPS.includes(key)) return resolve(value, this.MEDIA_PROPS.includes(key)) || value;
+
+    // Links and images inside HTML content
+    return value.includes('<') ? this.mapEmbedded(value, ref => resolve(ref, false)) : value;
+  }
+
+  // href, src and url() references in HTML or CSS
+  private static mapEmbedded(text: string, map: (ref: string) => string | null): string {
+    return text
+      .replace(/\b(href|src)="([^"]+)"/g, (match, attribute, ref) => {
+        const path = map(ref.replace(/&amp;/g, '&'));
+        return path ? `${attribute}="${path}"` : match;
+      })
+      .replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, quote, ref) => {
+        const path = map(ref);
+        return path ? `url(${quote}${path}${quote})` : match;
+      });
+  }
+
+  // Absolute URL of a reference worth packaging, null for fragments, inline data, pages and
+  // files that were packaged before
+  private static toAssetUrl(ref: string, base: string, isMedia: boolean): string | null {
+    const value = ref.trim();
+    if (!value || /^(#|data:|mailto:|tel:)/i.test(value) || value.startsWith(`${this.JOOMLA_FOLDER}/${this.ASSET_FOLDER}/`)) {
+      return null;
+    }
+
+    try {
+      const url = new URL(value, base);
+      url.hash = '';
+      const isFile = isMedia || this.FILE_PATTERN.test(url.pathname);
+      return isFile && ['http:', 'https:', 'file:'].includes(url.protocol) ? url.href : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Files that don't decode are packaged as they are, with the reason kept for the report
+  private static async optimizeImage(
+    blob: Blob,
+    settings?: ImageOptimizationSettings
+  ): Promise<{ image?: OptimizedImage; error?: string }> {
+    if (!settings?.enabled || !ImageOptimizer.isSupported() || !ImageOptimizer.canOptimize(blob)) return {};
+
+    try {
+      return { image: await ImageOptimizer.optimize(blob, settings) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private static async fetchAsset(url: string, options: AssetPackageOptions): Promise<Blob> {
+    const blob = await this.downloadAsset(url, options);
+
+    // Uploaded files and some proxies don't say what a file is, its extension does
+    if (blob.type && blob.type !== 'application/octet-stream') return blob;
+
+    const extension = new URL(url).pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase().replace('jpeg', 'jpg');
+    const type = Object.keys(this.EXTENSIONS).find(mime => this.EXTENSIONS[mime] === extension);
+    return type ? new Blob([blob], { type }) : blob;
+  }
+
+  private static async downloadAsset(url: string, { provider, files, signal }: AssetPackageOptions): Promise<Blob> {
+    const file = files?.[url.split(/[?#]/)[0]];
+    if (file) return file;
+
+    if (url.startsWith('file:')) {
+      throw new Error('Not among the uploaded files');
+    }
+    if (!provider) {
+      throw new Error('No scraper provider to download it with');
+    }
+
+    const result = await provider.fetchAsset(url, signal);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Download failed');
+    }
+    return result.data;
+  }
+
+  // "logo-1a2b3c4d.png": the original name to recognize it by, the content hash so two
+  // different logo.png files never collide and the same file is only stored once
+  private static async getFileName(url: string, blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    const hash = Array.from(new Uint8Array(digest).slice(0, 4)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+    const basename = new URL(url).pathname.split('/').pop() || '';
+    const [, stem, extension] = basename.match(/^(.*?)(?:\.([a-z0-9]+))?$/i)!;
+    const safeStem = stem.toLowerCase().replace(/%[0-9a-f]{2}|[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'asset';
+    // Named after what was packaged: thumb.php?id=7 serving a JPEG, or a PNG that became WebP
+    const fileExtension = this.EXTENSIONS[blob.type] || extension || 'bin';
+
+    return `${safeStem}-${hash}.${fileExtension.toLowerCase()}`;
+  }
+}
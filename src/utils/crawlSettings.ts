@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+const pathPattern = z
+  .string()
+  .trim()
+  .min(1, 'Pattern cannot be empty')
+  .regex(/^\S+$/, 'Pattern cannot contain spaces')
+  .refine(pattern => pattern.startsWith('/') || pattern.startsWith('*'), 'Pattern must start with / or *');
+
+const tagName = z
+  .string()
+  .trim()
+  .min(1, 'Tag cannot be empty')
+  .regex(/^[a-z0-9.#\-_[\]="]+$/i, 'Use a tag name, .class or #id');
+
+export const crawlSettingsSchema = z.object({
+  includePaths: z.array(pathPattern).default([]),
+  excludePaths: z.array(pathPattern).default([]),
+  maxDepth: z.number().int().min(0).max(20),
+  limit: z.number().int().min(1, 'Crawl at least one page').max(10000),
+  waitFor: z.number().int().min(0).max(60000, 'Wait at most 60 seconds'),
+  onlyMainContent: z.boolean(),
+  includeTags: z.array(tagName).default([]),
+  excludeTags: z.array(tagName).default([])
+});
+
+export type CrawlSettings = z.infer<typeof crawlSettingsSchema>;
+
+export const DEFAULT_CRAWL_SETTINGS: CrawlSettings = {
+  includePaths: [],
+  excludePaths: [],
+  maxDepth: 3,
+  limit: 50,
+  waitFor: 10000,
+  onlyMainContent: false,
+  includeTags: ['title', 'meta', 'header', 'nav', 'main', 'section', 'article', 'aside', 'footer', 'div', 'span', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'img', 'a', 'ul', 'ol', 'li', 'form', 'input', 'button', 'table', 'video', 'iframe', 'style', 'link'],
+  excludeTags: ['script']
+};
+
+// Theme and section background extraction read the page's CSS, so its styles are always scraped
+export const STYLE_TAGS = ['style', 'link'];
+
+// Lazy-loaded images keep their real source in a <noscript> fallback, so it's never excluded
+export const FALLBACK_TAGS = ['noscript'];
+
+// "*" matches any run of characters, including "/", so /blog/* covers every post
+export function globToRegex(glob: string): string {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return `^${escaped.replace(/\*+/g, '.*').replace(/\?/g, '.')}$`;
+}
+
+export function isInCrawlScope(url: string, settings: CrawlSettings): boolean {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return false;
+  }
+
+  const matches = (glob: string) => new RegExp(globToRegex(glob)).test(path);
+
+  if (settings.excludePaths.some(matches)) return false;
+  return settings.includePaths.length === 0 || settings.includePaths.some(matches);
+}
@@ -0,0 +1,227 @@
+export interface Credential {
+  id: string;
+  name: string;
+  providerId: string;
+  secret: string;
+  sessionOnly: boolean;
+}
+
+export type CredentialInfo = Omit<Credential, 'secret'>;
+
+interface EncryptedVault {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+export class CredentialVault {
+  private static STORAGE_KEY = 'credential_vault';
+  private static ACTIVE_STORAGE_KEY = 'credential_vault_active';
+  private static ITERATIONS = 310000;
+  private static BASE64_CHUNK = 0x8000;
+
+  private static key: CryptoKey | null = null;
+  private static salt: Uint8Array | null = null;
+  private static credentials: Credential[] = [];
+  // Session-only keys are gone after a reload, so their active ids are never stored either
+  private static sessionActive: Record<string, string> = {};
+
+  static exists(): boolean {
+    return !!localStorage.getItem(this.STORAGE_KEY);
+  }
+
+  static isUnlocked(): boolean {
+    return !!this.key;
+  }
+
+  static async create(passphrase: string): Promise<void> {
+    if (this.exists()) {
+      throw new Error('A vault already exists. Unlock it or forget it first.');
+    }
+
+    this.salt = crypto.getRandomValues(new Uint8Array(16));
+    this.key = await this.deriveKey(passphrase, this.salt, this.ITERATIONS);
+    await this.persist();
+  }
+
+  static async unlock(passphrase: string): Promise<boolean> {
+    const vault = this.readVault();
+    if (!vault) return false;
+
+    const salt = this.fromBase64(vault.salt);
+    const key = await this.deriveKey(passphrase, salt, vault.iterations);
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: this.fromBase64(vault.iv) },
+        key,
+        this.fromBase64(vault.data)
+      );
+      const stored: Credential[] = JSON.parse(new TextDecoder().decode(plaintext));
+
+      this.key = key;
+      this.salt = salt;
+      this.credentials = [
+        ...stored.map(credential => ({ ...credential, sessionOnly: false })),
+        ...this.credentials.filter(credential => credential.sessionOnly)
+      ];
+      return true;
+    } catch {
+      // AES-GCM authentication fails on a wrong passphrase
+      return false;
+    }
+  }
+
+  // Drops every decrypted secret from memory, including session-only keys
+  static lock(): void {
+    this.key = null;
+    this.salt = null;
+    this.credentials = [];
+    this.sessionActive = {};
+  }
+
+  static forget(): void {
+    this.lock();
+    localStorage.removeItem(this.STORAGE_KEY);
+    localStorage.removeItem(this.ACTIVE_STORAGE_KEY);
+  }
+
+  static list(providerId?: string): CredentialInfo[] {
+    return this.credentials
+      .filter(credential => !providerId || credential.providerId === providerId)
+      .map(({ secret, ...info }) => info);
+  }
+
+  static async add(credential: Omit<Credential, 'id'>): Promise<CredentialInfo> {
+    if (!credential.sessionOnly && !this.key) {
+      throw new Error('Unlock the vault to save keys permanently');
+    }
+
+    const entry: Credential = { ...credential, id: crypto.randomUUID() };
+    this.credentials.push(entry);
+
+    if (!entry.sessionOnly) {
+      await this.persist();
+    }
+
+    // An active id left over from a key that isn't loaded doesn't count
+    const activeId = this.getActiveId(entry.providerId);
+    if (!this.credentials.some(c => c.id === activeId)) {
+      this.setActive(entry.providerId, entry.id);
+    }
+
+    const { secret, ...info } = entry;
+    return info;
+  }
+
+  static async remove(id: string): Promise<void> {
+    const credential = this.credentials.find(c => c.id === id);
+    if (!credential) return;
+
+    this.credentials = this.credentials.filter(c => c.id !== id);
+    if (!credential.sessionOnly) {
+      await this.persist();
+    }
+
+    if (this.getActiveId(credential.providerId) === id) {
+      this.setActive(credential.providerId, this.list(credential.providerId)[0]?.id || null);
+    }
+  }
+
+  static getActiveId(providerId: string): string | null {
+    return this.sessionActive[providerId] || this.readActive()[providerId] || null;
+  }
+
+  static setActive(providerId: string, id: string | null): void {
+    // The stored choice stays as the fallback for when the session key is gone
+    if (id && this.credentials.find(c => c.id === id)?.sessionOnly) {
+      this.sessionActive[providerId] = id;
+      return;
+    }
+
+    delete this.sessionActive[providerId];
+    const active = this.readActive();
+    if (id) {
+      active[providerId] = id;
+    } else {
+      delete active[providerId];
+    }
+    localStorage.setItem(this.ACTIVE_STORAGE_KEY, JSON.stringify(active));
+  }
+
+  static getActiveSecret(providerId: string): string | null {
+    const id = this.getActiveId(providerId);
+    return this.credentials.find(credential => credential.id === id)?.secret || null;
+  }
+
+  private static async persist(): Promise<void> {
+    if (!this.key || !this.salt) return;
+
+    const stored = this.credentials.filter(credential => !credential.sessionOnly);
+    // A fresh IV for every write, AES-GCM must never reuse one with the same key
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      new TextEncoder().encode(JSON.stringify(stored))
+    );
+
+    const vault: EncryptedVault = {
+      version: 1,
+      iterations: this.ITERATIONS,
+      salt: this.toBase64(this.salt),
+      iv: this.toBase64(iv),
+      data: this.toBase64(new Uint8Array(ciphertext))
+    };
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(vault));
+  }
+
+  private static async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private static readVault(): EncryptedVault | null {
+    try {
+      return JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  private static readActive(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(this.ACTIVE_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  // Spreading a large ciphertext into fromCharCode would exceed the engine's argument limit
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += this.BASE64_CHUNK) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + this.BASE64_CHUNK));
+    }
+    return btoa(binary);
+  }
+
+  private static fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+  }
+}
@@ -1,93 +0,0 @@
-import FirecrawlApp from '@mendable/firecrawl-js';
-
-interface ErrorResponse {
-  success: false;
-  error: string;
-}
-
-interface CrawlResponse {
-  success: true;
-  data: {
-    content: string;
-    markdown: string;
-    html: string;
-    metadata: {
-      title: string;
-      description: string;
-      language: string;
-      sourceURL: string;
-    };
-  }[];
-}
-
-type ApiResponse = CrawlResponse | ErrorResponse;
-
-export class FirecrawlService {
-  private static API_KEY_STORAGE_KEY = 'firecrawl_api_key';
-  private static firecrawlApp: FirecrawlApp | null = null;
-
-  static saveApiKey(apiKey: string): void {
-    localStorage.setItem(this.API_KEY_STORAGE_KEY, apiKey);
-    this.firecrawlApp = new FirecrawlApp({ apiKey });
-  }
-
-  static getApiKey(): string | null {
-    return localStorage.getItem(this.API_KEY_STORAGE_KEY);
-  }
-
-  static async testApiKey(apiKey: string): Promise<boolean> {
-    try {
-      this.firecrawlApp = new FirecrawlApp({ apiKey });
-      const testResponse = await this.firecrawlApp.crawlUrl('https://example.com', {
-        limit: 1
-      });
-      return testResponse.success;
-    } catch (error) {
-      console.error('Error testing API key:', error);
-      return false;
-    }
-  }
-
-  static async scrapeWebsite(url: string): Promise<{ success: boolean; error?: string; data?: any }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { success: false, error: 'API key not found' };
-    }
-
-    try {
-      if (!this.firecrawlApp) {
-        this.firecrawlApp = new FirecrawlApp({ apiKey });
-      }
-
-      const response = await this.firecrawlApp.crawlUrl(url, {
-        limit: 50,
-        scrapeOptions: {
-          formats: ['markdown', 'html'],
-          waitFor: 10000,
-          onlyMainContent: false,
-          includeTags: ['title', 'meta', 'header', 'nav', 'main', 'section', 'article', 'aside', 'footer', 'div', 'span', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'img', 'a', 'ul', 'ol', 'li', 'form', 'input', 'button', 'table', 'video', 'iframe'],
-          excludeTags: ['script', 'style', 'noscript'],
-          removeBase64Images: false
-        }
-      }) as ApiResponse;
-
-      if (!response.success) {
-        return { 
-          success: false, 
-          error: (response as ErrorResponse).error || 'Failed to scrape website' 
-        };
-      }
-
-      return { 
-        success: true,
-        data: (response as CrawlResponse).data[0] 
-      };
-    } catch (error) {
-      console.error('Error during scraping:', error);
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Failed to connect to Firecrawl API' 
-      };
-    }
-  }
-}
\ No newline at end of file
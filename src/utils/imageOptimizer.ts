@@ -0,0 +1,82 @@
+export type ImageFormat = 'webp' | 'jpeg' | 'original';
+
+export interface ImageOptimizationSettings {
+  enabled: boolean;
+  maxWidth: number;
+  format: ImageFormat;
+  // 0 to 1, for WebP and JPEG
+  quality: number;
+}
+
+export interface OptimizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_IMAGE_OPTIMIZATION: ImageOptimizationSettings = {
+  enabled: true,
+  maxWidth: 1920,
+  format: 'webp',
+  quality: 0.8
+};
+
+export class ImageOptimizer {
+  // GIFs may be animated and SVGs are already small, canvases would flatten both
+  private static RASTER_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+  private static MIME_TYPES: Record<Exclude<ImageFormat, 'original'>, string> = {
+    webp: 'image/webp',
+    jpeg: 'image/jpeg'
+  };
+
+  static isSupported(): boolean {
+    return typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
+  }
+
+  static canOptimize(blob: Blob): boolean {
+    return this.RASTER_TYPES.includes(blob.type);
+  }
+
+  // Scales the image down to the maximum width and re-encodes it, which also drops EXIF and other
+  // metadata. The original is kept when re-encoding an image that needed no resizing makes it larger
+  static async optimize(blob: Blob, settings: ImageOptimizationSettings): Promise<OptimizedImage> {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, settings.maxWidth / bitmap.width);
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    try {
+      const canvas = new OffscreenCanvas(width, height);
+      const context = canvas.getContext('2d')!;
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      const type = this.getOutputType(blob.type, settings.format, context);
+      const optimized = await canvas.convertToBlob({ type, quality: settings.quality });
+
+      return scale === 1 && optimized.size >= blob.size
+        ? { blob, width, height }
+        : { blob: optimized, width, height };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  // JPEG has no alpha channel, transparent images stay PNG rather than getting a black background
+  private static getOutputType(type: string, format: ImageFormat, context: OffscreenCanvasRenderingContext2D): string {
+    if (format === 'original') {
+      return type === 'image/bmp' ? 'image/png' : type;
+    }
+    if (format === 'jpeg' && type !== 'image/jpeg' && this.hasTransparency(context)) {
+      return 'image/png';
+    }
+    return this.MIME_TYPES[format];
+  }
+
+  private static hasTransparency(context: OffscreenCanvasRenderingContext2D): boolean {
+    const { data } = context.getImageData(0, 0, context.canvas.width, context.canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+
+export const LAYOUT_SCHEMA_VERSION = 1;
+
+export interface LayoutElement {
+  type: string;
+  name?: string;
+  props: Record<string, unknown>;
+  children: LayoutElement[];
+}
+
+// What converters may hand in, props and children are filled in on parse
+export interface LayoutElementInput {
+  type: string;
+  name?: string;
+  props?: Record<string, unknown>;
+  children?: LayoutElementInput[];
+}
+
+// Recursive schemas need an explicit type, cast because non-strict mode infers every key as optional
+export const layoutElementSchema = z.lazy(() =>
+  z.object({
+    type: z.string().min(1, 'Element type cannot be empty'),
+    name: z.string().optional(),
+    props: z.record(z.unknown()).default({}),
+    children: z.array(layoutElementSchema).default([])
+  })
+) as z.ZodType<LayoutElement, z.ZodTypeDef, LayoutElementInput>;
+
+const assetsSchema = z.object({
+  images: z.array(z.string()).default([]),
+  styles: z.string().default(''),
+  // YOOtheme style settings as LESS variable overrides, e.g. "@global-primary-background"
+  theme: z.record(z.string()).default({})
+});
+
+export const layoutOutputSchema = z.object({
+  schemaVersion: z.literal(LAYOUT_SCHEMA_VERSION),
+  joomlaVersion: z.string(),
+  yootheme: z.object({
+    template: z.string(),
+    version: z.string()
+  }),
+  layout: z.object({
+    type: z.literal('layout'),
+    children: z.array(layoutElementSchema)
+  }),
+  assets: assetsSchema.default({})
+});
+
+export type LayoutOutput = z.infer<typeof layoutOutputSchema>;
+export type LayoutAssets = z.infer<typeof assetsSchema>;
+
+// JoomlaConversion from the section/row/column converter
+const legacyConversionSchema = z.object({
+  joomla_version: z.string(),
+  yootheme: z.object({
+    template: z.string(),
+    version: z.string(),
+    builder_config: z.object({
+      sections: z.array(layoutElementSchema)
+    })
+  }),
+  assets: assetsSchema.default({})
+});
+
+// Bare { type: "layout" } tree from the element definition converter
+const legacyLayoutSchema = z.object({
+  type: z.literal('layout'),
+  children: z.array(layoutElementSchema)
+});
+
+export class LayoutSchema {
+  private static JOOMLA_VERSION = '4.3+';
+  private static YOOTHEME_TEMPLATE = 'YOOtheme Pro';
+  private static YOOTHEME_VERSION = '3.2+';
+
+  static create(sections: LayoutElementInput[], assets?: Partial<LayoutAssets>): LayoutOutput {
+    return layoutOutputSchema.parse({
+      schemaVersion: LAYOUT_SCHEMA_VERSION,
+      joomlaVersion: this.JOOMLA_VERSION,
+      yootheme: {
+        template: this.YOOTHEME_TEMPLATE,
+        version: this.YOOTHEME_VERSION
+      },
+      layout: {
+        type: 'layout',
+        children: sections
+      },
+      assets
+    });
+  }
+
+  // Accepts the current schema as well as outputs saved by older versions
+  static parse(value: unknown): LayoutOutput {
+    const version = (value as { schemaVersion?: unknown })?.schemaVersion;
+
+    if (typeof version === 'number' && version > LAYOUT_SCHEMA_VERSION) {
+      throw new Error(`Layout schema version ${version} is newer than this converter supports`);
+    }
+
+    if (version !== undefined) {
+      return this.validate(layoutOutputSchema.safeParse(value));
+    }
+
+    const conversion = legacyConversionSchema.safeParse(value);
+    if (conversion.success) {
+      return {
+        schemaVersion: LAYOUT_SCHEMA_VERSION,
+        joomlaVersion: conversion.data.joomla_version,
+        yootheme: {
+          template: conversion.data.yootheme.template,
+          version: conversion.data.yootheme.version
+        },
+        layout: {
+          type: 'layout',
+          children: conversion.data.yootheme.builder_config.sections
+        },
+        assets: conversion.data.assets
+      };
+    }
+
+    const layout = legacyLayoutSchema.safeParse(value);
+    if (layout.success) {
+      return this.create(layout.data.children);
+    }
+
+    throw new Error('Not a YOOtheme layout: expected a converter output or a saved layout');
+  }
+
+  static getSections(output: LayoutOutput): LayoutElement[] {
+    return output.layout.children;
+  }
+
+  private static validate(result: z.SafeParseReturnType<unknown, LayoutOutput>): LayoutOutput {
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Invalid layout at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    }
+    return result.data;
+  }
+}
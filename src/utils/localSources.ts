@@ -0,0 +1,106 @@
+import JSZip from 'jszip';
+import type { WebsiteData } from './joomlaConverter';
+import { StylesheetLoader } from './stylesheets';
+
+export interface LocalSite {
+  pages: WebsiteData[];
+  assets: Record<string, Blob>;
+}
+
+export class LocalSourceService {
+  private static LOCAL_BASE = 'file:///';
+  private static HTML_PATTERN = /\.html?$/i;
+  private static SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+  static fromHtml(html: string, sourceURL?: string): LocalSite {
+    const url = this.toSourceUrl(sourceURL?.trim() || `${this.LOCAL_BASE}index.html`);
+    return {
+      pages: [this.toWebsiteData(html, url)],
+      assets: {}
+    };
+  }
+
+  static async fromHtmlFiles(files: File[]): Promise<LocalSite> {
+    const pages = await Promise.all(
+      files
+        .filter(file => this.HTML_PATTERN.test(file.name))
+        .map(async file => this.toWebsiteData(await file.text(), this.LOCAL_BASE + encodeURI(file.name)))
+    );
+
+    if (pages.length === 0) {
+      throw new Error('No .html files selected');
+    }
+
+    return { pages, assets: {} };
+  }
+
+  static async fromZip(file: File | Blob): Promise<LocalSite> {
+    const zip = await JSZip.loadAsync(file);
+    const entries = Object.values(zip.files).filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'));
+    const root = this.getCommonRoot(entries.map(entry => entry.name));
+
+    const files = new Map<string, JSZip.JSZipObject>();
+    entries.forEach(entry => {
+      files.set(this.LOCAL_BASE + encodeURI(entry.name.substring(root.length)), entry);
+    });
+
+    const assets: Record<string, Blob> = {};
+    const pages: WebsiteData[] = [];
+
+    for (const [url, entry] of files) {
+      if (this.HTML_PATTERN.test(url)) {
+        const html = await StylesheetLoader.inline(await entry.async('string'), url, async cssUrl => {
+          const css = files.get(cssUrl.split('?')[0]);
+          return css ? css.async('string') : null;
+        });
+        pages.push(this.toWebsiteData(html, url));
+      } else {
+        assets[url] = await entry.async('blob');
+      }
+    }
+
+    if (pages.length === 0) {
+      throw new Error('The archive does not contain any .html files');
+    }
+
+    return { pages, assets };
+  }
+
+  static toWebsiteData(html: string, sourceURL: string): WebsiteData {
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(html, 'text/html');
+
+    return {
+      content: doc.body?.textContent?.trim() || '',
+      markdown: '',
+      html,
+      metadata: {
+        title: doc.title || decodeURI(sourceURL.split('/').pop() || ''),
+        description: doc.querySelector('meta[name="description"]')?.getAttribute('content') || '',
+        language: doc.documentElement.getAttribute('lang') || '',
+        sourceURL
+      }
+    };
+  }
+
+  // "example.com/page" is meant as a web address, pages without a valid URL would be dropped by the converter
+  private static toSourceUrl(value: string): string {
+    const url = this.SCHEME_PATTERN.test(value) ? value : `https://${value}`;
+    try {
+      return new URL(url).href;
+    } catch {
+      throw new Error(`Original URL "${value}" is not a valid URL`);
+    }
+  }
+
+  private static getCommonRoot(names: string[]): string {
+    if (names.length === 0) return '';
+
+    const [first] = names;
+    const slash = first.indexOf('/');
+    if (slash === -1) return '';
+
+    const root = first.substring(0, slash + 1);
+    return names.every(name => name.startsWith(root)) ? root : '';
+  }
+}
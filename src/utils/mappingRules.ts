@@ -0,0 +1,154 @@
+import { z } from 'zod';
+
+const isValidSelector = (selector: string) => {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const selector = z
+  .string()
+  .trim()
+  .min(1, 'Selector cannot be empty')
+  .refine(isValidSelector, 'Not a valid CSS selector');
+
+export const propMappingSchema = z
+  .object({
+    prop: z.string().trim().min(1, 'Prop name cannot be empty'),
+    source: z.enum(['text', 'html', 'attribute', 'class']),
+    // Reads from a descendant of the matched node instead of the node itself
+    selector: selector.optional(),
+    attribute: z.string().trim().min(1).optional(),
+    // First capture group wins, the whole match is used without groups
+    pattern: z.string().refine(isValidRegex, 'Not a valid regular expression').optional()
+  })
+  .refine(mapping => mapping.source !== 'attribute' || !!mapping.attribute, {
+    message: 'Attribute mappings need an attribute name',
+    path: ['attribute']
+  });
+
+export const mappingRuleSchema = z.object({
+  id: z.string().trim().min(1, 'Rule id cannot be empty'),
+  name: z.string().trim().optional(),
+  selector,
+  element: z.string().trim().min(1, 'Name the YOOtheme element type'),
+  priority: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+  props: z.record(z.unknown()).default({}),
+  mappings: z.array(propMappingSchema).default([])
+});
+
+export const mappingRuleSetSchema = z
+  .array(mappingRuleSchema)
+  .refine(rules => new Set(rules.map(rule => rule.id)).size === rules.length, 'Rule ids must be unique');
+
+export type PropMapping = z.infer<typeof propMappingSchema>;
+export type MappingRule = z.infer<typeof mappingRuleSchema>;
+
+export interface RuleMatch {
+  ruleId: string;
+  path: string;
+  snippet: string;
+}
+
+export const EXAMPLE_RULES: MappingRule[] = [
+  {
+    id: 'testimonial',
+    name: 'Testimonial cards',
+    selector: '.testimonial',
+    element: 'quotation',
+    priority: 10,
+    enabled: true,
+    props: { margin: 'default' },
+    mappings: [
+      { prop: 'content', source: 'text', selector: 'blockquote, p' },
+      { prop: 'author', source: 'text', selector: 'cite, .author' }
+    ]
+  }
+];
+
+// Highest priority first, rules of equal priority keep their order
+export function sortRules(rules: MappingRule[]): MappingRule[] {
+  return rules
+    .filter(rule => rule.enabled)
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+export function applyPropMappings(rule: MappingRule, element: Element): Record<string, unknown> {
+  const props: Record<string, unknown> = { ...rule.props };
+
+  rule.mappings.forEach(mapping => {
+    const source = mapping.selector ? element.querySelector(mapping.selector) : element;
+    if (!source) return;
+
+    const value = readMappingValue(mapping, source);
+    if (value !== null && value !== '') {
+      props[mapping.prop] = value;
+    }
+  });
+
+  return props;
+}
+
+function readMappingValue(mapping: PropMapping, element: Element): string | null {
+  const pattern = mapping.pattern ? new RegExp(mapping.pattern) : null;
+  const extract = (value: string | null) => {
+    if (value === null || !pattern) return value;
+    const match = value.match(pattern);
+    return match ? match[1] ?? match[0] : null;
+  };
+
+  switch (mapping.source) {
+    case 'text': return extract(element.textContent?.trim() || '');
+    case 'html': return extract(element.innerHTML.trim());
+    case 'attribute': return extract(element.getAttribute(mapping.attribute!));
+    case 'class': {
+      const classes = Array.from(element.classList);
+      if (!pattern) return classes.join(' ');
+      for (const className of classes) {
+        const value = extract(className);
+        if (value !== null) return value;
+      }
+      return null;
+    }
+  }
+}
+
+// A readable CSS path such as main > section.hero > div.card:nth-of-type(2)
+export function getNodePath(element: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current.tagName.toLowerCase() !== 'body' && current.tagName.toLowerCase() !== 'html') {
+    let segment = current.tagName.toLowerCase();
+    if (current.id) {
+      segments.unshift(`${segment}#${current.id}`);
+      break;
+    }
+
+    const className = Array.from(current.classList).slice(0, 2).join('.');
+    if (className) segment += `.${className}`;
+
+    const siblings = Array.from(current.parentElement?.children || []).filter(el => el.tagName === current!.tagName);
+    if (siblings.length > 1) segment += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+
+    segments.unshift(segment);
+    current = current.parentElement;
+  }
+
+  return segments.join(' > ');
+}
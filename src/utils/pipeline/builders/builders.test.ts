@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { columnProps, convertFixture } from '../testing';
+
+const text = (label: string) => `<p>${label} holds a paragraph long enough to be kept as text.</p>`;
+
+describe('elementorAdapter', () => {
+  it('sizes classic section columns by their elementor-col percentage from tablet up', () => {
+    const html = `<div class="elementor"><section class="elementor-section" data-element_type="section">
+<div class="elementor-container elementor-column-gap-default">
+<div class="elementor-column elementor-col-66" data-element_type="column">${text('Main')}</div>
+<div class="elementor-column elementor-col-33" data-element_type="column">${text('Aside')}</div>
+</div></section></div>`;
+
+    expect(convertFixture(html).report.builder?.id).toBe('elementor');
+    expect(columnProps(html)).toEqual([
+      { width: '2-3', width_small: '2-3' },
+      { width: '1-3', width_small: '1-3' }
+    ]);
+  });
+});
+
+describe('gutenbergAdapter', () => {
+  it('sizes columns by their flex-basis', () => {
+    const html = `<div class="entry-content"><div class="wp-block-columns">
+<div class="wp-block-column" style="flex-basis:66.66%">${text('Main')}</div>
+<div class="wp-block-column" style="flex-basis:33.33%">${text('Aside')}</div>
+</div></div>`;
+
+    expect(convertFixture(html).report.builder?.id).toBe('gutenberg');
+    expect(columnProps(html).map(props => props.width)).toEqual(['2-3', '1-3']);
+  });
+
+  it('keeps columns side by side on mobile when they are not stacked', () => {
+    const html = `<div class="entry-content"><div class="wp-block-columns is-not-stacked-on-mobile">
+<div class="wp-block-column" style="flex-basis:50%">${text('Left')}</div>
+<div class="wp-block-column" style="flex-basis:50%">${text('Right')}</div>
+</div></div>`;
+
+    expect(columnProps(html)[0]).toMatchObject({ width: '1-2', width_default: '1-2' });
+  });
+});
+
+describe('diviAdapter', () => {
+  it('sizes columns by their et_pb_column fraction from desktop up', () => {
+    const html = `<div class="et_pb_section"><div class="et_pb_row">
+<div class="et_pb_column et_pb_column_1_4">${text('Aside')}</div>
+<div class="et_pb_column et_pb_column_3_4">${text('Main')}</div>
+</div></div>`;
+
+    expect(convertFixture(html).report.builder?.id).toBe('divi');
+    expect(columnProps(html)).toEqual([
+      { width: '1-4', width_medium: '1-4' },
+      { width: '3-4', width_medium: '3-4' }
+    ]);
+  });
+});
+
+describe('wpbakeryAdapter', () => {
+  it('sizes columns by their vc_col spans', () => {
+    const html = `<div class="vc_row wpb_row">
+<div class="wpb_column vc_column_container vc_col-sm-8">${text('Main')}</div>
+<div class="wpb_column vc_column_container vc_col-sm-4">${text('Aside')}</div>
+</div>`;
+
+    expect(convertFixture(html).report.builder?.id).toBe('wpbakery');
+    expect(columnProps(html).map(props => props.width)).toEqual(['2-3', '1-3']);
+  });
+});
@@ -0,0 +1,59 @@
+import { matchClass, toColumnWidths, toWidth } from '../frameworks/utils';
+import type { BuilderRow, PageBuilderAdapter } from '../types';
+import { findOwn, findTopLevel } from './utils';
+
+const SECTION = '.et_pb_section';
+const ROW = '.et_pb_row, .et_pb_row_inner';
+const COLUMN = '.et_pb_column';
+
+// Columns stack below Divi's desktop breakpoint
+const DESKTOP = 981;
+
+// Divi's gutter widths 1-4, from none to 8% of the row
+const GUTTERS: Record<string, string> = {
+  '1': 'collapse',
+  '2': 'small',
+  '3': 'default',
+  '4': 'large'
+};
+
+export const diviAdapter: PageBuilderAdapter = {
+  id: 'divi',
+  name: 'Divi',
+
+  detect(doc) {
+    return !!doc.querySelector('.et_pb_section');
+  },
+
+  readSections(doc) {
+    return findTopLevel(doc, SECTION, SECTION).map(section => ({
+      elements: [section],
+      // Fullwidth sections hold modules directly, without rows
+      rows: section.classList.contains('et_pb_fullwidth_section')
+        ? [{ columns: [{ elements: [section], widths: {} }] }]
+        : findOwn(section, '.et_pb_row', `${SECTION}, ${COLUMN}`).map(row => readRow(row, section))
+    }));
+  },
+
+  readNestedRow(element) {
+    return element.classList.contains('et_pb_row_inner') ? readRow(element, element) : null;
+  }
+};
+
+// Rows without a gutter class of their own use the section's
+function readRow(row: Element, section: Element): BuilderRow {
+  const gutter = matchClass(row, /^et_pb_gutters(\d)$/) || matchClass(section, /^et_pb_gutters(\d)$/);
+
+  return {
+    columns: findOwn(row, COLUMN, ROW).map(column => {
+      const fraction = matchClass(column, /^et_pb_column_(\d)_(\d)$/);
+      return {
+        elements: [column],
+        widths: fraction
+          ? toColumnWidths([{ minWidth: DESKTOP, width: toWidth(parseInt(fraction[1]), parseInt(fraction[2])) }])
+          : {}
+      };
+    }),
+    ...(gutter && GUTTERS[gutter[1]] && { gap: GUTTERS[gutter[1]] })
+  };
+}
@@ -0,0 +1,82 @@
+import { matchClass, toColumnWidths, toGap, toWidth } from '../frameworks/utils';
+import type { BuilderRow, PageBuilderAdapter } from '../types';
+import { findOwn, findTopLevel } from './utils';
+
+const SECTION = '[data-element_type="section"], [data-element_type="container"]';
+const COLUMN = '[data-element_type="column"]';
+
+// Columns stack on mobile, below the tablet breakpoint
+const TABLET = 768;
+
+// Space between columns in pixels, Elementor pads every column by half of it
+const COLUMN_GAPS: Record<string, number> = {
+  no: 0,
+  narrow: 10,
+  default: 20,
+  extended: 30,
+  wide: 40,
+  wider: 60
+};
+
+export const elementorAdapter: PageBuilderAdapter = {
+  id: 'elementor',
+  name: 'Elementor',
+
+  detect(doc) {
+    return !!doc.querySelector('.elementor [data-element_type], .elementor-section, .e-con');
+  },
+
+  readSections(doc) {
+    return findTopLevel(doc, SECTION, SECTION).map(section => ({
+      elements: [section],
+      rows: [section.getAttribute('data-element_type') === 'container' ? readContainer(section) : readSection(section)]
+    }));
+  },
+
+  // Inner sections and containers laid out as a row, containers that stack are looked into instead
+  readNestedRow(element) {
+    if (element.matches('[data-element_type="section"]')) return readSection(element);
+    if (!element.matches('[data-element_type="container"]')) return null;
+
+    const row = readContainer(element);
+    return row.columns.length > 1 ? row : null;
+  }
+};
+
+// Classic sections hold one row of columns sized by an elementor-col-N percentage class
+function readSection(section: Element): BuilderRow {
+  const container = section.querySelector('.elementor-container');
+  const gap = container && matchClass(container, /^elementor-column-gap-(\w+)$/);
+
+  return {
+    columns: findOwn(section, COLUMN, SECTION).map(column => {
+      const percentage = matchClass(column, /^elementor-col-(\d+)$/);
+      return {
+        elements: [column],
+        widths: percentage ? toColumnWidths([{ minWidth: TABLET, width: toWidth(parseInt(percentage[1]), 100) }]) : {}
+      };
+    }),
+    ...(gap && COLUMN_GAPS[gap[1]] !== undefined && { gap: toGap(COLUMN_GAPS[gap[1]]) })
+  };
+}
+
+// Flexbox containers nest containers instead of columns, widths live in the generated CSS
+function readContainer(container: Element): BuilderRow {
+  const children = findOwn(container, '[data-element_type="container"]', SECTION);
+  const isRow = children.length > 1 && getSettings(container).flex_direction?.startsWith('row');
+
+  return {
+    columns: isRow
+      ? children.map(child => ({ elements: [child], widths: {} }))
+      : [{ elements: [container], widths: {} }]
+  };
+}
+
+// Containers stack their children unless data-settings says otherwise
+function getSettings(element: Element): { flex_direction?: string } {
+  try {
+    return JSON.parse(element.getAttribute('data-settings') || '{}');
+  } catch {
+    return {};
+  }
+}
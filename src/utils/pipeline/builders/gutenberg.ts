@@ -0,0 +1,112 @@
+import { toColumnWidths, toWidth } from '../frameworks/utils';
+import type { BuilderRow, BuilderSection, PageBuilderAdapter } from '../types';
+import { getPercentage } from './utils';
+
+// Blocks that span the page and start a section of their own
+const SECTION_BLOCKS = '.wp-block-group, .wp-block-cover, .wp-block-columns, .wp-block-media-text, .alignfull';
+
+// Columns stack below 782px, media and text below 600px, unless told not to
+const COLUMNS_STACK = 782;
+const MEDIA_TEXT_STACK = 600;
+
+const INNER_CONTAINER = ':scope > .wp-block-group__inner-container, :scope > .wp-block-cover__inner-container';
+
+export const gutenbergAdapter: PageBuilderAdapter = {
+  id: 'gutenberg',
+  name: 'Gutenberg',
+
+  detect(doc) {
+    return !!doc.querySelector('.wp-block-columns, .wp-block-group, .wp-block-cover, .wp-block-media-text');
+  },
+
+  // Section blocks become sections, runs of loose blocks between them are collected into one
+  readSections(doc) {
+    const root = doc.querySelector('.wp-block-post-content, .entry-content') || doc.body;
+    const sections: BuilderSection[] = [];
+    let loose: Element[] = [];
+
+    const flushLoose = () => {
+      if (loose.length > 0) {
+        sections.push({ elements: loose, rows: [{ columns: [{ elements: loose, widths: {} }] }] });
+        loose = [];
+      }
+    };
+
+    Array.from(root.children).forEach(block => {
+      if (block.matches(SECTION_BLOCKS)) {
+        flushLoose();
+        const inner = block.matches('.wp-block-columns, .wp-block-media-text') ? block : block.querySelector(INNER_CONTAINER) || block;
+        sections.push({ elements: [block], rows: readRows(inner) });
+      } else if (!block.matches('script, style')) {
+        loose.push(block);
+      }
+    });
+    flushLoose();
+
+    return sections;
+  },
+
+  readNestedRow(element) {
+    if (element.matches('.wp-block-columns')) return readColumns(element);
+    if (element.matches('.wp-block-media-text')) return readMediaText(element);
+    return null;
+  }
+};
+
+// A group's columns blocks become rows of their own, everything in between stays full width
+function readRows(container: Element): BuilderRow[] {
+  if (container.matches('.wp-block-columns')) return [readColumns(container)];
+  if (container.matches('.wp-block-media-text')) return [readMediaText(container)];
+
+  const rows: BuilderRow[] = [];
+  let loose: Element[] = [];
+
+  const flushLoose = () => {
+    if (loose.length > 0) {
+      rows.push({ columns: [{ elements: loose, widths: {} }] });
+      loose = [];
+    }
+  };
+
+  Array.from(container.children).forEach(block => {
+    if (block.matches('.wp-block-columns, .wp-block-media-text')) {
+      flushLoose();
+      rows.push(...readRows(block));
+    } else {
+      loose.push(block);
+    }
+  });
+  flushLoose();
+
+  return rows;
+}
+
+// Columns without a flex-basis share the remaining space equally
+function readColumns(columns: Element): BuilderRow {
+  const minWidth = columns.classList.contains('is-not-stacked-on-mobile') ? 0 : COLUMNS_STACK;
+
+  return {
+    columns: Array.from(columns.children)
+      .filter(column => column.classList.contains('wp-block-column'))
+      .map(column => {
+        const basis = getPercentage((column as HTMLElement).style?.flexBasis);
+        return { elements: [column], widths: basis ? toColumnWidths([{ minWidth, width: toWidth(basis, 100) }]) : {} };
+      })
+  };
+}
+
+// Media and text side by side, 50/50 unless grid-template-columns says otherwise
+function readMediaText(block: Element): BuilderRow {
+  const media = block.querySelector(':scope > .wp-block-media-text__media');
+  const content = block.querySelector(':scope > .wp-block-media-text__content');
+  const mediaWidth = getPercentage((block as HTMLElement).style?.gridTemplateColumns) ?? 50;
+  const mediaOnRight = block.classList.contains('has-media-on-the-right');
+  const minWidth = block.classList.contains('is-stacked-on-mobile') ? MEDIA_TEXT_STACK : 0;
+
+  const columns = [
+    ...(media ? [{ elements: [media], widths: toColumnWidths([{ minWidth, width: toWidth(mediaWidth, 100) }]) }] : []),
+    ...(content ? [{ elements: [content], widths: toColumnWidths([{ minWidth, width: toWidth(100 - mediaWidth, 100) }]) }] : [])
+  ];
+
+  return { columns: mediaOnRight ? columns.reverse() : columns };
+}
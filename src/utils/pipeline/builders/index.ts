@@ -0,0 +1,19 @@
+import type { PageBuilderAdapter } from '../types';
+import { diviAdapter } from './divi';
+import { elementorAdapter } from './elementor';
+import { gutenbergAdapter } from './gutenberg';
+import { wpbakeryAdapter } from './wpbakery';
+
+export { diviAdapter, elementorAdapter, gutenbergAdapter, wpbakeryAdapter };
+
+// Gutenberg blocks also show up on builder pages, e.g. in widgets, so it is checked last
+export const BUILDER_ADAPTERS: PageBuilderAdapter[] = [
+  elementorAdapter,
+  diviAdapter,
+  wpbakeryAdapter,
+  gutenbergAdapter
+];
+
+export function detectBuilder(doc: Document, adapters: PageBuilderAdapter[] = BUILDER_ADAPTERS): PageBuilderAdapter | null {
+  return adapters.find(adapter => adapter.detect(doc)) || null;
+}
@@ -0,0 +1,15 @@
+// Elements matching the selector that are not nested inside another builder structure
+export function findTopLevel(doc: Document, selector: string, boundary: string): Element[] {
+  return Array.from(doc.querySelectorAll(selector)).filter(element => !element.parentElement?.closest(boundary));
+}
+
+// Elements matching the selector that belong to root rather than to a structure nested in it,
+// e.g. the columns of a section but not those of an inner section
+export function findOwn(root: Element, selector: string, boundary: string): Element[] {
+  return Array.from(root.querySelectorAll(selector)).filter(element => element.parentElement?.closest(boundary) === root);
+}
+
+export function getPercentage(value: string | null | undefined): number | null {
+  const match = value?.match(/(\d+(?:\.\d+)?)%/);
+  return match ? parseFloat(match[1]) : null;
+}
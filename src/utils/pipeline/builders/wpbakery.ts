@@ -0,0 +1,48 @@
+import { getResponsiveValues, matchClass, toColumnWidths, toGap, toWidth } from '../frameworks/utils';
+import type { BuilderRow, PageBuilderAdapter } from '../types';
+import { findOwn, findTopLevel } from './utils';
+
+const BREAKPOINTS: Record<string, number> = { xs: 0, sm: 768, md: 992, lg: 1200 };
+
+const ROW = '.vc_row, .vc_row_inner';
+const COLUMN = '.wpb_column, .vc_column_container';
+
+export const wpbakeryAdapter: PageBuilderAdapter = {
+  id: 'wpbakery',
+  name: 'WPBakery',
+
+  detect(doc) {
+    return !!doc.querySelector('.vc_row .wpb_column, .vc_row .vc_column_container');
+  },
+
+  // Every top-level vc_row is a section, inner rows become rows nested in their column
+  readSections(doc) {
+    return findTopLevel(doc, ROW, `${ROW}, ${COLUMN}`).map(row => ({
+      elements: [row],
+      rows: [readRow(row)]
+    }));
+  },
+
+  readNestedRow(element) {
+    return element.matches(ROW) ? readRow(element) : null;
+  }
+};
+
+function readRow(row: Element): BuilderRow {
+  const gap = matchClass(row, /^vc_column-gap-(\d+)$/);
+
+  return {
+    columns: findOwn(row, COLUMN, ROW).map(column => {
+      // vc_col-sm-4 spans 4 of 12, vc_col-sm-1/5 is a fifth
+      const spans = getResponsiveValues(column, /^vc_col-(?<breakpoint>xs|sm|md|lg)-(?<value>\d+(?:\/5)?)$/, BREAKPOINTS);
+      return {
+        elements: [column],
+        widths: toColumnWidths(spans.map(({ minWidth, value }) => {
+          const [numerator, denominator] = value.includes('/') ? value.split('/').map(Number) : [Number(value), 12];
+          return { minWidth, width: toWidth(numerator, denominator) };
+        }))
+      };
+    }),
+    ...(gap && { gap: toGap(parseInt(gap[1])) })
+  };
+}
@@ -0,0 +1,223 @@
+import { LayoutSchema, type LayoutElementInput, type LayoutOutput } from '../layoutSchema';
+import type { ColumnNode, ContentNode, PageTree, RowNode, SectionBackground, SectionNode } from './types';
+
+export class YOOthemeEmitter {
+  static emit(tree: PageTree): LayoutOutput {
+    return LayoutSchema.create(tree.sections.map(section => this.emitSection(section)), tree.assets);
+  }
+
+  static emitSection(section: SectionNode): LayoutElementInput {
+    return {
+      type: "section",
+      props: {
+        layout: "default",
+        style: section.style,
+        padding: section.padding,
+        ...(section.margin && { margin: section.margin }),
+        vertical_align: section.verticalAlign,
+        ...(section.visibility && { visibility: section.visibility }),
+        ...(section.background && this.emitBackground(section.background))
+      },
+      children: section.rows.map(row => this.emitRow(row))
+    };
+  }
+
+  static emitBackground(background: SectionBackground): Record<string, unknown> {
+    return {
+      ...(background.image && { image: background.image }),
+      ...(background.imagePosition && { image_position: background.imagePosition }),
+      ...(background.imageSize && { image_size: background.imageSize }),
+      ...(background.video && { video: background.video }),
+      ...(background.overlay && { media_overlay: background.overlay }),
+      ...(background.color && { background_color: background.color }),
+      ...(background.inverse && { text_color: "light" })
+    };
+  }
+
+  static emitRow(row: RowNode): LayoutElementInput {
+    return {
+      type: "row",
+      props: {
+        width: "default",
+        ...(row.gap && { gutter: row.gap })
+      },
+      children: row.columns.map(column => this.emitColumn(column))
+    };
+  }
+
+  static emitColumn(column: ColumnNode): LayoutElementInput {
+    return {
+      type: "column",
+      props: {
+        width: column.width,
+        ...Object.fromEntries(Object.entries(column.widths || {}).map(([breakpoint, width]) => [`width_${breakpoint}`, width]))
+      },
+      children: column.children.map(item => this.convertContentToYOOtheme(item))
+    };
+  }
+
+  static convertContentToYOOtheme(item: ContentNode): LayoutElementInput {
+    const element = this.emitContent(item);
+    return {
+      ...element,
+      props: {
+        ...element.props,
+        ...(item.textAlign && { text_align: item.textAlign }),
+        ...(item.visibility && { visibility: item.visibility })
+      }
+    };
+  }
+
+  private static emitContent(item: ContentNode): LayoutElementInput {
+    switch (item.type) {
+      case 'heading':
+        return {
+          type: "heading",
+          props: {
+            content: item.content,
+            heading_element: item.tag,
+            heading_style: item.level <= 2 ? "h1" : "default",
+            margin: "default"
+          }
+        };
+
+      case 'text':
+        return {
+          type: "text",
+          props: {
+            content: item.content,
+            ...(item.align && { text_align: item.align }),
+            margin: "default"
+          }
+        };
+
+      case 'image':
+        return {
+          type: "image",
+          props: {
+            image: item.src,
+            image_alt: item.alt,
+            image_width: item.width || "",
+            image_height: item.height || "",
+            border_radius: "default",
+            margin: "default"
+          }
+        };
+
+      case 'list':
+        return {
+          type: "list",
+          props: {
+            list_style: item.ordered ? "decimal" : "disc",
+            content: item.items.map(listItem => ({ content: listItem })),
+            margin: "default"
+          }
+        };
+
+      case 'button':
+        return {
+          type: "button",
+          props: {
+            content: item.content,
+            link: item.href,
+            style: item.style,
+            size: "default",
+            margin: "default"
+          }
+        };
+
+      case 'form':
+        return {
+          type: "html",
+          props: {
+            content: `<form action="${item.action}" method="${item.method}">
+              ${item.inputs.map(input =>
+                `<div class="uk-margin"><input class="uk-input" type="${input.type}" name="${input.name}" placeholder="${input.placeholder}" ${input.required ? 'required' : ''}></div>`
+              ).join('\n')}
+              <button class="uk-button uk-button-primary" type="submit">Submit</button>
+            </form>`,
+            margin: "default"
+          }
+        };
+
+      case 'table':
+        return {
+          type: "table",
+          props: {
+            table_style: "striped",
+            content: {
+              head: [item.headers],
+              body: item.rows
+            },
+            margin: "default"
+          }
+        };
+
+      case 'video':
+      case 'iframe':
+        return {
+          type: "video",
+          props: {
+            video: item.src,
+            video_width: item.width || "1920",
+            video_height: item.height || "1080",
+            margin: "default"
+          }
+        };
+
+      case 'widget':
+        return {
+          type: item.widgetType,
+          props: {
+            ...item.props,
+            margin: "default"
+          },
+          children: item.items.map(widgetItem => ({
+            type: `${item.widgetType}_item`,
+            props: {
+              title: widgetItem.title,
+              ...(widgetItem.meta && { meta: widgetItem.meta }),
+              content: widgetItem.content,
+              ...(widgetItem.image && { image: widgetItem.image, image_alt: widgetItem.imageAlt || "" }),
+              ...(widgetItem.link && { link: widgetItem.link, link_text: widgetItem.linkText || "" })
+            }
+          }))
+        };
+
+      case 'row':
+        return this.emitRow(item.row);
+
+      case 'element':
+        return {
+          type: item.elementType,
+          props: item.props
+        };
+
+      case 'nav':
+        return {
+          type: "nav",
+          props: {
+            style: "default",
+            alignment: "left",
+            margin: "default"
+          },
+          children: item.links.map(link => ({
+            type: "nav_item",
+            props: {
+              content: link.text,
+              link: link.href
+            }
+          }))
+        };
+
+      default:
+        return {
+          type: "html",
+          props: {
+            content: 'content' in item ? item.content : '',
+            margin: "default"
+          }
+        };
+    }
+  }
+}
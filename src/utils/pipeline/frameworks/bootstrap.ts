@@ -0,0 +1,96 @@
+import type { FrameworkDetector } from '../types';
+import { countClassMatches, getResponsiveValue, getResponsiveValues, getResponsiveVisibility, hasClass, matchClass, toColumnWidths, toGap, toPadding, toWidth } from './utils';
+
+const BREAKPOINTS: Record<string, number> = { '': 0, sm: 576, md: 768, lg: 992, xl: 1200, xxl: 1400 };
+
+// Spacer scale 0-5 in pixels
+const SPACERS = [0, 4, 8, 16, 24, 48];
+
+const DISTINCTIVE = /^(col-(sm|md|lg|xl|xxl)-(\d+|auto)|col-\d+|row-cols-\d|btn-(primary|secondary|success|danger|warning|info|light|dark|link|outline-\w+)|d-(sm|md|lg|xl|xxl)-\w+|g[xy]?-\d|navbar-expand(-\w+)?|card-body)$/;
+
+const GRID_CLASSES = /^(col-(sm|md|lg|xl|xxl)-(\d+|auto)|row-cols(-(sm|md|lg|xl|xxl))?-\d)$/;
+
+const BUTTON_STYLES: Record<string, string> = {
+  primary: 'primary',
+  secondary: 'secondary',
+  dark: 'secondary',
+  danger: 'danger',
+  link: 'link'
+};
+
+export const bootstrapDetector: FrameworkDetector = {
+  id: 'bootstrap',
+  name: 'Bootstrap',
+  cardSelector: '.card',
+  gridClasses: GRID_CLASSES,
+
+  detect(doc) {
+    return countClassMatches(doc, DISTINCTIVE);
+  },
+
+  getGrid(element) {
+    if (!element.classList.contains('row')) return null;
+
+    const columns = Array.from(element.children).filter(child => hasClass(child, /^col(-|$)/));
+    if (columns.length === 0) return null;
+
+    // Without a g-* class rows use the default 1.5rem gutter
+    const gutter = matchClass(element, /^g[x]?-(\d)$/);
+    return { columns, gap: toGap(gutter ? SPACERS[parseInt(gutter[1])] : 24) };
+  },
+
+  getColumnWidths(column, grid) {
+    const perRow = getResponsiveValues(grid, /^row-cols(?:-(?<breakpoint>sm|md|lg|xl|xxl))?-(?<value>\d+)$/, BREAKPOINTS);
+    // col and col-md share the row equally, col-md-4 spans 4 of 12
+    const spans = getResponsiveValues(column, /^col(?:-(?<breakpoint>sm|md|lg|xl|xxl))?(?:-(?<value>\d+|auto))?$/, BREAKPOINTS);
+
+    const toEntry = ({ minWidth, value }: { minWidth: number; value: string }) => ({
+      minWidth,
+      width: value === 'auto' ? 'auto' : value ? toWidth(parseInt(value), 12) : 'expand'
+    });
+
+    // Same cascade as the stylesheet: .col, then .row-cols-*, then sized columns
+    return toColumnWidths([
+      ...spans.filter(span => !span.value).map(toEntry),
+      ...perRow.map(({ minWidth, value }) => ({ minWidth, width: toWidth(1, parseInt(value)) })),
+      ...spans.filter(span => span.value).map(toEntry)
+    ]);
+  },
+
+  getSectionStyle(element) {
+    if (hasClass(element, /^bg-(primary|info)$/)) return 'primary';
+    if (hasClass(element, /^bg-(dark|secondary|black)$/)) return 'secondary';
+    if (hasClass(element, /^bg-(light|body-tertiary|body-secondary)$/)) return 'muted';
+    return null;
+  },
+
+  getSectionPadding(element) {
+    const spacer = getResponsiveValue(element, /^p[yt]?(?:-(?<breakpoint>sm|md|lg|xl|xxl))?-(?<value>\d)$/, BREAKPOINTS);
+    return spacer ? toPadding(SPACERS[parseInt(spacer)]) : null;
+  },
+
+  getVisibility(element) {
+    return getResponsiveVisibility(element, /^d(?:-(?<breakpoint>sm|md|lg|xl|xxl))?-(?<value>none|block|flex|inline|inline-block|inline-flex|grid|table)$/, BREAKPOINTS);
+  },
+
+  getTextAlign(element) {
+    const align = getResponsiveValue(element, /^text(?:-(?<breakpoint>sm|md|lg|xl|xxl))?-(?<value>start|left|center|end|right|justify)$/, BREAKPOINTS);
+    if (align === 'start') return 'left';
+    if (align === 'end') return 'right';
+    return align;
+  },
+
+  getButtonStyle(element) {
+    const variant = matchClass(element, /^btn-(outline-)?(primary|secondary|success|danger|warning|info|light|dark|link)$/);
+    if (!variant) return element.classList.contains('btn') ? 'default' : null;
+    // Outline buttons are the quieter variant, closest to the default style
+    return variant[1] ? 'default' : BUTTON_STYLES[variant[2]] || 'default';
+  },
+
+  getCardStyle(element) {
+    if (!element.classList.contains('card')) return null;
+    if (hasClass(element, /^(bg|border)-primary$/)) return 'card-primary';
+    if (hasClass(element, /^bg-(dark|secondary)$/)) return 'card-secondary';
+    return 'card-default';
+  }
+};
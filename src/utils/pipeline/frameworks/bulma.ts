@@ -0,0 +1,131 @@
+import type { FrameworkDetector } from '../types';
+import { countClassMatches, getResponsiveValue, getResponsiveValues, hasClass, matchClass, toBreakpoint, toColumnWidths, toGap, toWidth } from './utils';
+
+// Unsuffixed sizes apply from tablet up unless the columns are .is-mobile or .is-desktop
+const BREAKPOINTS: Record<string, number> = { mobile: 0, '': 769, tablet: 769, desktop: 1024, widescreen: 1216, fullhd: 1408 };
+
+const DEVICES = 'mobile|tablet|desktop|widescreen|fullhd';
+
+const FRACTIONS: Record<string, [number, number]> = {
+  'full': [1, 1],
+  'half': [1, 2],
+  'one-third': [1, 3],
+  'two-thirds': [2, 3],
+  'one-quarter': [1, 4],
+  'three-quarters': [3, 4],
+  'one-fifth': [1, 5],
+  'two-fifths': [2, 5],
+  'three-fifths': [3, 5],
+  'four-fifths': [4, 5]
+};
+
+const DISTINCTIVE = /^(columns|is-(\d+|half|one-third|two-thirds|one-quarter|three-quarters|narrow)(-(mobile|tablet|desktop|widescreen|fullhd))?|hero-body|is-hidden-\w+|has-text-(centered|left|right|justified)|has-background-\w+|is-gapless)$/;
+
+const GRID_CLASSES = /^is-(\d+|half|one-third|two-thirds|one-quarter|three-quarters)-(mobile|tablet|desktop|widescreen|fullhd)$/;
+
+// Default column gap is 0.75rem
+const DEFAULT_GAP = 12;
+
+const BUTTON_STYLES: Record<string, string> = {
+  primary: 'primary',
+  link: 'primary',
+  info: 'primary',
+  dark: 'secondary',
+  black: 'secondary',
+  danger: 'danger',
+  text: 'text',
+  ghost: 'link'
+};
+
+export const bulmaDetector: FrameworkDetector = {
+  id: 'bulma',
+  name: 'Bulma',
+  cardSelector: '.card, .box, .notification',
+  gridClasses: GRID_CLASSES,
+
+  detect(doc) {
+    return countClassMatches(doc, DISTINCTIVE);
+  },
+
+  getGrid(element) {
+    if (!element.classList.contains('columns')) return null;
+
+    const columns = Array.from(element.children).filter(child => child.classList.contains('column'));
+    if (columns.length === 0) return null;
+
+    const variableGap = matchClass(element, /^is-([0-8])$/);
+    const gap = element.classList.contains('is-gapless') ? 0
+      : variableGap && element.classList.contains('is-variable') ? parseInt(variableGap[1]) * 4
+      : DEFAULT_GAP;
+    return { columns, gap: toGap(gap) };
+  },
+
+  getColumnWidths(column, grid) {
+    // Columns stack below tablet unless the grid says otherwise, unsuffixed sizes start where stacking ends
+    // or at tablet when the column has its own -mobile size
+    const isMobileGrid = grid.classList.contains('is-mobile') && !hasClass(column, /-mobile$/);
+    const breakpoints = {
+      ...BREAKPOINTS,
+      '': isMobileGrid ? 0 : grid.classList.contains('is-desktop') ? BREAKPOINTS.desktop : BREAKPOINTS.tablet
+    };
+    const sizes = getResponsiveValues(
+      column,
+      new RegExp(`^is-(?<value>\\d+|${Object.keys(FRACTIONS).join('|')}|narrow)(?:-(?<breakpoint>${DEVICES}))?$`),
+      breakpoints
+    );
+
+    return toColumnWidths(sizes.map(({ minWidth, value }) => {
+      if (value === 'narrow') return { minWidth, width: 'auto' };
+      const [numerator, denominator] = FRACTIONS[value] || [parseInt(value), 12];
+      return { minWidth, width: toWidth(numerator, denominator) };
+    }));
+  },
+
+  getSectionStyle(element) {
+    if (hasClass(element, /^(is|has-background)-(primary|link|info)$/)) return 'primary';
+    if (hasClass(element, /^(is|has-background)-(dark|black)$/)) return 'secondary';
+    if (hasClass(element, /^(is|has-background)-(light|white-ter|white-bis)$/)) return 'muted';
+    return null;
+  },
+
+  getSectionPadding(element) {
+    if (!element.matches('.section, .hero')) return null;
+    if (element.classList.contains('is-fullheight') || element.classList.contains('is-large')) return 'xlarge';
+    if (element.classList.contains('is-medium')) return 'large';
+    if (element.classList.contains('is-small')) return 'small';
+    return 'default';
+  },
+
+  getVisibility(element) {
+    // is-hidden-mobile shows from tablet up, is-hidden-desktop hides from desktop up
+    const hidden = matchClass(element, new RegExp(`^is-hidden-(${DEVICES})$`));
+    if (!hidden) return null;
+    if (hidden[1] === 'mobile') return toBreakpoint(BREAKPOINTS.tablet);
+    return `hidden-${toBreakpoint(BREAKPOINTS[hidden[1]])}`;
+  },
+
+  getTextAlign(element) {
+    const align = getResponsiveValue(
+      element,
+      new RegExp(`^has-text-(?<value>left|centered|right|justified)(?:-(?<breakpoint>${DEVICES}))?$`),
+      { ...BREAKPOINTS, '': 0 }
+    );
+    if (align === 'centered') return 'center';
+    if (align === 'justified') return 'justify';
+    return align;
+  },
+
+  getButtonStyle(element) {
+    if (!element.classList.contains('button')) return null;
+    if (element.classList.contains('is-outlined')) return 'default';
+    const variant = matchClass(element, /^is-(primary|link|info|dark|black|danger|text|ghost)$/);
+    return variant ? BUTTON_STYLES[variant[1]] : 'default';
+  },
+
+  getCardStyle(element) {
+    if (!element.matches('.card, .box, .notification')) return null;
+    if (hasClass(element, /^is-(primary|link|info)$/)) return 'card-primary';
+    if (hasClass(element, /^is-(dark|black)$/)) return 'card-secondary';
+    return 'card-default';
+  }
+};
@@ -0,0 +1,94 @@
+import type { FrameworkDetector } from '../types';
+import { countClassMatches, getResponsiveValue, getResponsiveValues, hasClass, matchClass, toBreakpoint, toColumnWidths, toGap, toWidth } from './utils';
+
+const BREAKPOINTS: Record<string, number> = { '': 0, small: 0, medium: 640, large: 1024, xlarge: 1200, xxlarge: 1440 };
+
+const SIZES = 'small|medium|large|xlarge|xxlarge';
+
+const DISTINCTIVE = /^((small|medium|large|xlarge|xxlarge)-(\d+|up-\d+|auto|shrink)|grid-x|grid-margin-x|grid-padding-x|cell|callout|(show|hide)-for-\w+)$/;
+
+const GRID_CLASSES = /^(grid-x|(medium|large|xlarge|xxlarge)-(\d+|up-\d+))$/;
+
+// Default gutter of the margin and padding grids
+const GUTTER = 30;
+
+const BUTTON_STYLES: Record<string, string> = {
+  primary: 'primary',
+  secondary: 'secondary',
+  alert: 'danger',
+  clear: 'text'
+};
+
+export const foundationDetector: FrameworkDetector = {
+  id: 'foundation',
+  name: 'Foundation',
+  cardSelector: '.card, .callout',
+  gridClasses: GRID_CLASSES,
+
+  detect(doc) {
+    return countClassMatches(doc, DISTINCTIVE);
+  },
+
+  getGrid(element) {
+    const isXyGrid = element.classList.contains('grid-x');
+    if (!isXyGrid && !element.classList.contains('row')) return null;
+
+    const columns = Array.from(element.children).filter(child =>
+      hasClass(child, isXyGrid ? /^cell$/ : /^columns?$/)
+    );
+    if (columns.length === 0) return null;
+
+    // The XY grid has no gutters unless asked for, the float grid always pads its columns
+    const hasGutter = !isXyGrid || hasClass(element, /^grid-(margin|padding)-x$/);
+    return { columns, gap: toGap(hasGutter ? GUTTER : 0) };
+  },
+
+  getColumnWidths(column, grid) {
+    const perRow = getResponsiveValues(grid, new RegExp(`^(?<breakpoint>${SIZES})-up-(?<value>\\d+)$`), BREAKPOINTS);
+    const spans = getResponsiveValues(column, new RegExp(`^(?<breakpoint>${SIZES})-(?<value>\\d+|auto|shrink)$`), BREAKPOINTS);
+
+    return toColumnWidths([
+      ...perRow.map(({ minWidth, value }) => ({ minWidth, width: toWidth(1, parseInt(value)) })),
+      ...spans.map(({ minWidth, value }) => ({
+        minWidth,
+        width: value === 'auto' ? 'expand' : value === 'shrink' ? 'auto' : toWidth(parseInt(value), 12)
+      }))
+    ]);
+  },
+
+  // Foundation leaves section colors and spacing to the site's own CSS
+  getSectionStyle() {
+    return null;
+  },
+
+  getSectionPadding() {
+    return null;
+  },
+
+  getVisibility(element) {
+    // show-for-medium hides on small screens, hide-for-medium hides from medium up
+    const shown = matchClass(element, /^show-for-(medium|large|xlarge|xxlarge)$/);
+    if (shown) return toBreakpoint(BREAKPOINTS[shown[1]]);
+
+    const hidden = matchClass(element, /^hide-for-(medium|large|xlarge|xxlarge)$/);
+    return hidden ? `hidden-${toBreakpoint(BREAKPOINTS[hidden[1]])}` : null;
+  },
+
+  getTextAlign(element) {
+    return getResponsiveValue(element, new RegExp(`^(?:(?<breakpoint>${SIZES})-)?text-(?<value>left|center|right|justify)$`), BREAKPOINTS);
+  },
+
+  getButtonStyle(element) {
+    if (!element.classList.contains('button')) return null;
+    if (element.classList.contains('hollow')) return 'default';
+    const variant = matchClass(element, /^(primary|secondary|alert|clear)$/);
+    return variant ? BUTTON_STYLES[variant[1]] : 'primary';
+  },
+
+  getCardStyle(element) {
+    if (!element.matches('.card, .callout')) return null;
+    if (element.classList.contains('primary')) return 'card-primary';
+    if (element.classList.contains('secondary')) return 'card-secondary';
+    return 'card-default';
+  }
+};
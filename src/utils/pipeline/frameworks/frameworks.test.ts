@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { columnProps, convertFixture } from '../testing';
+
+const text = (label: string) => `<p>${label} holds a paragraph long enough to be kept as text.</p>`;
+
+describe('detectFramework', () => {
+  it('detects Bootstrap from the column classes of a lone row', () => {
+    const html = `<section><div class="row">
+<div class="col-md-8">${text('Main')}</div>
+<div class="col-md-4">${text('Aside')}</div>
+</div></section>`;
+
+    expect(convertFixture(html).report.framework?.id).toBe('bootstrap');
+    expect(columnProps(html).map(props => props.width)).toEqual(['2-3', '1-3']);
+  });
+
+  it('detects Tailwind from a lone responsive grid and keeps its breakpoints', () => {
+    const html = `<section><div class="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5">
+${[1, 2, 3, 4, 5].map(n => `<div>${text(`Item ${n}`)}</div>`).join('\n')}
+</div></section>`;
+
+    expect(convertFixture(html).report.framework?.id).toBe('tailwind');
+    expect(columnProps(html)[0]).toMatchObject({ width_default: '1-1', width_small: '1-2', width_medium: '1-5' });
+  });
+});
+
+describe('bootstrapDetector', () => {
+  it('maps responsive column classes to per-breakpoint widths', () => {
+    const html = `<section><div class="row">
+${['One', 'Two', 'Three'].map(label => `<div class="col-12 col-md-6 col-lg-4">${text(label)}</div>`).join('\n')}
+</div></section>`;
+
+    expect(columnProps(html)).toEqual(Array(3).fill({ width: '1-3', width_default: '1-1', width_small: '1-2', width_medium: '1-3' }));
+  });
+});
+
+describe('tailwindDetector', () => {
+  it('counts plain gap utilities and sizes flex columns by their fractions', () => {
+    const html = `<section>
+<div class="flex gap-4"><div class="w-2/3">${text('Main')}</div><div class="w-1/3">${text('Aside')}</div></div>
+<div class="gap-4"></div><div class="gap-4"></div>
+</section>`;
+
+    expect(convertFixture(html).report.framework?.id).toBe('tailwind');
+    expect(columnProps(html).map(props => props.width)).toEqual(['2-3', '1-3']);
+  });
+});
+
+describe('foundationDetector', () => {
+  it('stacks XY grid cells below the medium breakpoint', () => {
+    const html = `<section><div class="grid-x grid-margin-x">
+<div class="cell small-12 medium-8">${text('Main')}</div>
+<div class="cell small-12 medium-4">${text('Aside')}</div>
+</div></section>`;
+
+    expect(convertFixture(html).report.framework?.id).toBe('foundation');
+    expect(columnProps(html)).toEqual([
+      { width: '2-3', width_default: '1-1', width_small: '2-3' },
+      { width: '1-3', width_default: '1-1', width_small: '1-3' }
+    ]);
+  });
+});
+
+describe('bulmaDetector', () => {
+  it('sizes columns from their is-* classes', () => {
+    const html = `<section class="section">
+<div class="columns"><div class="column is-8">${text('Main')}</div><div class="column is-4">${text('Aside')}</div></div>
+<div class="columns"><div class="column is-half">${text('Left')}</div><div class="column">${text('Right')}</div></div>
+</section>`;
+
+    expect(convertFixture(html).report.framework?.id).toBe('bulma');
+    expect(columnProps(html).map(props => props.width)).toEqual(['2-3', '1-3', '1-2', '1-2']);
+  });
+});
+
+describe('uikitDetector', () => {
+  it('carries child widths over per breakpoint', () => {
+    const html = `<section class="uk-section"><div class="uk-child-width-1-2@s uk-child-width-1-3@m" uk-grid>
+${['One', 'Two', 'Three'].map(label => `<div>${text(label)}</div>`).join('\n')}
+</div></section>`;
+
+    expect(convertFixture(html).report.framework?.id).toBe('uikit');
+    expect(columnProps(html)[0]).toEqual({ width: '1-3', width_small: '1-2', width_medium: '1-3' });
+  });
+});
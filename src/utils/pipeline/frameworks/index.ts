@@ -0,0 +1,39 @@
+import type { FrameworkDetector } from '../types';
+import { bootstrapDetector } from './bootstrap';
+import { bulmaDetector } from './bulma';
+import { foundationDetector } from './foundation';
+import { tailwindDetector } from './tailwind';
+import { uikitDetector } from './uikit';
+import { countClassMatches } from './utils';
+
+export { bootstrapDetector, bulmaDetector, foundationDetector, tailwindDetector, uikitDetector };
+
+export const FRAMEWORK_DETECTORS: FrameworkDetector[] = [
+  uikitDetector,
+  bootstrapDetector,
+  tailwindDetector,
+  foundationDetector,
+  bulmaDetector
+];
+
+// A handful of matching classes can be coincidence, e.g. a lone .columns wrapper
+const MIN_MATCHES = 3;
+
+// The framework with the most distinctive classes on the page, ties go to the earlier detector
+export function detectFramework(doc: Document, detectors: FrameworkDetector[] = FRAMEWORK_DETECTORS): FrameworkDetector | null {
+  let detected: FrameworkDetector | null = null;
+  let best = MIN_MATCHES - 1;
+
+  for (const detector of detectors) {
+    const matches = detector.detect(doc);
+    if (matches > best) {
+      detected = detector;
+      best = matches;
+    }
+  }
+
+  if (detected) return detected;
+
+  // Pasted markup or a small page may hold a single grid, its own classes still name the framework
+  return detectors.find(detector => detector.gridClasses && countClassMatches(doc, detector.gridClasses) > 0) || null;
+}
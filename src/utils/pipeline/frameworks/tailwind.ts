@@ -0,0 +1,98 @@
+import type { FrameworkDetector } from '../types';
+import { countClassMatches, getResponsiveValue, getResponsiveValues, getResponsiveVisibility, hasClass, toColumnWidths, toGap, toPadding, toWidth } from './utils';
+
+const BREAKPOINTS: Record<string, number> = { '': 0, sm: 640, md: 768, lg: 1024, xl: 1280, '2xl': 1536 };
+
+const PREFIX = '(?:(?<breakpoint>sm|md|lg|xl|2xl):)?';
+
+// Responsive prefixes and the numbered color scale rarely show up outside Tailwind
+const DISTINCTIVE = /^((sm|md|lg|xl|2xl):\S+|grid-cols-\d+|col-span-\d+|gap-(?:[xy]-)?\d+|space-[xy]-\d+|(bg|text|border)-[a-z]+-\d{2,3})$/;
+
+const GRID_CLASSES = /^((sm|md|lg|xl|2xl):)?(grid-cols|col-span)-\d+$/;
+
+// Spacing scale step in pixels, p-4 is 16px
+const SPACING_UNIT = 4;
+
+const responsive = (utility: string, value: string) => new RegExp(`^${PREFIX}${utility}(?<value>${value})$`);
+
+export const tailwindDetector: FrameworkDetector = {
+  id: 'tailwind',
+  name: 'Tailwind CSS',
+  gridClasses: GRID_CLASSES,
+
+  detect(doc) {
+    return countClassMatches(doc, DISTINCTIVE);
+  },
+
+  getGrid(element) {
+    const isGrid = hasClass(element, responsive('grid-cols-', '\\d+'));
+    const isFlexRow = element.classList.contains('flex') && !hasClass(element, /^flex-col$/) &&
+      Array.from(element.children).some(child => hasClass(child, responsive('w-', '\\d+\\/\\d+')));
+    if (!isGrid && !isFlexRow) return null;
+
+    const gap = getResponsiveValue(element, responsive('gap-(?:x-)?', '\\d+'), BREAKPOINTS);
+    return {
+      columns: Array.from(element.children),
+      ...(gap && { gap: toGap(parseInt(gap) * SPACING_UNIT) })
+    };
+  },
+
+  getColumnWidths(column, grid) {
+    const fractions = getResponsiveValues(column, responsive('w-', '\\d+\\/\\d+|full|auto'), BREAKPOINTS);
+    if (fractions.length > 0) {
+      return toColumnWidths(fractions.map(({ minWidth, value }) => ({ minWidth, width: toFractionWidth(value) })));
+    }
+
+    if (hasClass(column, /^flex-1$/)) return { default: 'expand' };
+
+    // A span only means something against the column count in effect at the same breakpoint
+    const counts = getResponsiveValues(grid, responsive('grid-cols-', '\\d+'), BREAKPOINTS);
+    const spans = getResponsiveValues(column, responsive('col-span-', '\\d+'), BREAKPOINTS);
+    if (counts.length === 0) return {};
+
+    const valueAt = (values: { minWidth: number; value: string }[], minWidth: number) =>
+      parseInt(values.filter(entry => entry.minWidth <= minWidth).pop()?.value || '1');
+
+    const minWidths = Array.from(new Set([0, ...counts.map(entry => entry.minWidth), ...spans.map(entry => entry.minWidth)]));
+    return toColumnWidths(minWidths.map(minWidth => {
+      const count = valueAt(counts, minWidth);
+      return { minWidth, width: toWidth(Math.min(valueAt(spans, minWidth), count), count) };
+    }));
+  },
+
+  getSectionStyle(element) {
+    if (hasClass(element, /^bg-(gray|slate|zinc|neutral|stone)-(50|100|200)$/)) return 'muted';
+    if (hasClass(element, /^bg-(black|(gray|slate|zinc|neutral|stone)-(700|800|900|950))$/)) return 'secondary';
+    if (hasClass(element, /^bg-[a-z]+-(500|600|700|800|900)$/)) return 'primary';
+    return null;
+  },
+
+  getSectionPadding(element) {
+    const spacing = getResponsiveValue(element, responsive('p[yt]?-', '\\d+'), BREAKPOINTS);
+    return spacing ? toPadding(parseInt(spacing) * SPACING_UNIT) : null;
+  },
+
+  getVisibility(element) {
+    return getResponsiveVisibility(element, responsive('', 'hidden|block|flex|grid|inline|inline-block|inline-flex|table'), BREAKPOINTS);
+  },
+
+  getTextAlign(element) {
+    return getResponsiveValue(element, responsive('text-', 'left|center|right|justify'), BREAKPOINTS);
+  },
+
+  // Tailwind has no component classes, buttons and cards keep the generic detection
+  getButtonStyle() {
+    return null;
+  },
+
+  getCardStyle() {
+    return null;
+  }
+};
+
+function toFractionWidth(value: string): string {
+  if (value === 'full') return '1-1';
+  if (value === 'auto') return 'auto';
+  const [numerator, denominator] = value.split('/').map(Number);
+  return toWidth(numerator, denominator);
+}
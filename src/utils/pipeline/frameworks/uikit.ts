@@ -0,0 +1,74 @@
+import type { FrameworkDetector } from '../types';
+import { countClassMatches, getResponsiveValue, getResponsiveValues, matchClass, toColumnWidths } from './utils';
+
+// YOOtheme is built on UIkit, so its values carry over as they are
+const BREAKPOINTS: Record<string, number> = { '': 0, s: 640, m: 960, l: 1200, xl: 1600 };
+
+const BREAKPOINT = '(?:@(?<breakpoint>s|m|l|xl))?';
+
+const WIDTHS = '\\d-\\d|auto|expand|small|medium|large|xlarge|2xlarge';
+
+export const uikitDetector: FrameworkDetector = {
+  id: 'uikit',
+  name: 'UIkit',
+  cardSelector: '.uk-card',
+  gridClasses: /^uk-(grid|width-|child-width-)/,
+
+  detect(doc) {
+    return countClassMatches(doc, /^uk-/);
+  },
+
+  getGrid(element) {
+    if (!element.classList.contains('uk-grid') && !element.hasAttribute('uk-grid')) return null;
+
+    const gap = matchClass(element, /^uk-grid-(small|medium|large|collapse)$/);
+    return {
+      columns: Array.from(element.children),
+      gap: gap ? gap[1] : 'default'
+    };
+  },
+
+  getColumnWidths(column, grid) {
+    const toEntries = (values: { minWidth: number; value: string }[]) =>
+      values.map(({ minWidth, value }) => ({ minWidth, width: value }));
+
+    // The column's own width wins over the grid's child width at the same breakpoint
+    return toColumnWidths([
+      ...toEntries(getResponsiveValues(grid, new RegExp(`^uk-child-width-(?<value>${WIDTHS})${BREAKPOINT}$`), BREAKPOINTS)),
+      ...toEntries(getResponsiveValues(column, new RegExp(`^uk-width-(?<value>${WIDTHS})${BREAKPOINT}$`), BREAKPOINTS))
+    ]);
+  },
+
+  getSectionStyle(element) {
+    const style = matchClass(element, /^uk-section-(default|muted|primary|secondary)$/);
+    return style ? style[1] : null;
+  },
+
+  getSectionPadding(element) {
+    if (!element.classList.contains('uk-section')) return null;
+    if (element.classList.contains('uk-padding-remove-vertical')) return 'none';
+    const padding = matchClass(element, /^uk-section-(xsmall|small|large|xlarge)$/);
+    return padding ? padding[1] : 'default';
+  },
+
+  getVisibility(element) {
+    const visibility = matchClass(element, /^uk-(visible|hidden)@(s|m|l|xl)$/);
+    if (!visibility) return null;
+    return visibility[1] === 'visible' ? visibility[2] : `hidden-${visibility[2]}`;
+  },
+
+  getTextAlign(element) {
+    return getResponsiveValue(element, new RegExp(`^uk-text-(?<value>left|center|right|justify)${BREAKPOINT}$`), BREAKPOINTS);
+  },
+
+  getButtonStyle(element) {
+    const style = matchClass(element, /^uk-button-(default|primary|secondary|danger|text|link)$/);
+    return style ? style[1] : null;
+  },
+
+  getCardStyle(element) {
+    const style = matchClass(element, /^uk-card-(default|primary|secondary|hover)$/);
+    if (style) return `card-${style[1]}`;
+    return element.classList.contains('uk-card') ? 'card-default' : null;
+  }
+};
@@ -0,0 +1,136 @@
+import { WIDTH_BREAKPOINTS, type ColumnWidths, type WidthBreakpoint } from '../types';
+
+// Min widths of the UIkit breakpoints YOOtheme uses for widths and visibility
+const BREAKPOINTS = [
+  ['s', 640],
+  ['m', 960],
+  ['l', 1200],
+  ['xl', 1600]
+] as const;
+
+const WIDTHS = [[1, 1], [1, 2], [1, 3], [2, 3], [1, 4], [3, 4], [1, 5], [2, 5], [3, 5], [4, 5], [1, 6], [5, 6]];
+
+export type Breakpoint = typeof BREAKPOINTS[number][0];
+
+export function getClasses(element: Element): string[] {
+  return Array.from(element.classList);
+}
+
+export function hasClass(element: Element, pattern: RegExp): boolean {
+  return getClasses(element).some(className => pattern.test(className));
+}
+
+export function matchClass(element: Element, pattern: RegExp): RegExpMatchArray | null {
+  for (const className of getClasses(element)) {
+    const match = className.match(pattern);
+    if (match) return match;
+  }
+  return null;
+}
+
+// Every value a responsive class sets, narrowest breakpoint first, e.g. col-12 col-md-4.
+// The pattern needs a "breakpoint" and a "value" group, either may be empty.
+export function getResponsiveValues(
+  element: Element,
+  pattern: RegExp,
+  breakpoints: Record<string, number>
+): { minWidth: number; value: string }[] {
+  return getClasses(element)
+    .map(className => className.match(pattern)?.groups)
+    .filter(groups => groups && breakpoints[groups.breakpoint || ''] !== undefined)
+    .map(groups => ({ minWidth: breakpoints[groups!.breakpoint || ''], value: groups!.value || '' }))
+    .sort((a, b) => a.minWidth - b.minWidth);
+}
+
+// The value of a responsive class at the widest breakpoint it is set for, e.g. col-md-4 over col-12
+export function getResponsiveValue(element: Element, pattern: RegExp, breakpoints: Record<string, number>): string | null {
+  const values = getResponsiveValues(element, pattern, breakpoints);
+  return values.length > 0 ? values[values.length - 1].value : null;
+}
+
+// Frameworks put their breakpoints at different widths, map to the nearest UIkit one
+export function toBreakpoint(minWidth: number): Breakpoint {
+  return BREAKPOINTS.reduce((nearest, breakpoint) =>
+    Math.abs(breakpoint[1] - minWidth) < Math.abs(nearest[1] - minWidth) ? breakpoint : nearest
+  )[0];
+}
+
+export function toWidthBreakpoint(minWidth: number): WidthBreakpoint {
+  if (minWidth === 0) return 'default';
+  return ({ s: 'small', m: 'medium', l: 'large', xl: 'xlarge' } as const)[toBreakpoint(minWidth)];
+}
+
+// Per-breakpoint widths from source widths, a later entry for the same breakpoint wins
+export function toColumnWidths(widths: { minWidth: number; width: string }[]): ColumnWidths {
+  const result: ColumnWidths = {};
+  widths
+    .map((entry, index) => ({ ...entry, index }))
+    .sort((a, b) => a.minWidth - b.minWidth || a.index - b.index)
+    .forEach(entry => {
+      result[toWidthBreakpoint(entry.minWidth)] = entry.width;
+    });
+  return result;
+}
+
+export function getWidestWidth(widths: ColumnWidths): string | null {
+  const breakpoint = [...WIDTH_BREAKPOINTS].reverse().find(name => widths[name]);
+  return breakpoint ? widths[breakpoint]! : null;
+}
+
+// Nearest YOOtheme column width for a fraction such as 5/12
+export function toWidth(numerator: number, denominator: number): string {
+  const fraction = numerator / denominator;
+  const [n, d] = WIDTHS.reduce((nearest, width) =>
+    Math.abs(width[0] / width[1] - fraction) < Math.abs(nearest[0] / nearest[1] - fraction) ? width : nearest
+  );
+  return `${n}-${d}`;
+}
+
+export function toGap(pixels: number): string {
+  if (pixels === 0) return 'collapse';
+  if (pixels <= 20) return 'small';
+  if (pixels <= 35) return 'medium';
+  if (pixels <= 55) return 'default';
+  return 'large';
+}
+
+export function toPadding(pixels: number): string {
+  if (pixels === 0) return 'none';
+  if (pixels <= 30) return 'xsmall';
+  if (pixels <= 55) return 'small';
+  if (pixels <= 105) return 'default';
+  if (pixels <= 175) return 'large';
+  return 'xlarge';
+}
+
+export function countClassMatches(doc: Document, pattern: RegExp): number {
+  return Array.from(doc.querySelectorAll('[class]')).filter(element => hasClass(element, pattern)).length;
+}
+
+// Visibility from responsive display classes, e.g. d-none d-md-block is visible from md up.
+// The pattern needs "breakpoint" and "value" groups like getResponsiveValue, hidden values hide the element.
+export function getResponsiveVisibility(
+  element: Element,
+  pattern: RegExp,
+  breakpoints: Record<string, number>,
+  hiddenValues: string[] = ['none', 'hidden']
+): string | null {
+  return toVisibility(getResponsiveValues(element, pattern, breakpoints)
+    .map(({ minWidth, value }) => ({ minWidth, visible: !hiddenValues.includes(value) })));
+}
+
+// YOOtheme can only show an element from a breakpoint up or hide it from one, so the first change wins
+export function toVisibility(states: { minWidth: number; visible: boolean }[]): string | null {
+  let visible = true;
+
+  for (const state of states) {
+    if (state.minWidth === 0) {
+      visible = state.visible;
+    } else if (state.visible !== visible) {
+      const breakpoint = toBreakpoint(state.minWidth);
+      return state.visible ? breakpoint : `hidden-${breakpoint}`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,85 @@
+import type { WebsiteData } from '../joomlaConverter';
+import type { LayoutOutput } from '../layoutSchema';
+import { YOOthemeEmitter } from './emitter';
+import { HtmlParser } from './parse';
+import { sectionBackgroundPass } from './passes/background';
+import { pageBuilderPass } from './passes/builders';
+import { detectFrameworkPass, frameworkCardsPass, frameworkUtilitiesPass } from './passes/frameworks';
+import { groupVisualSectionsPass, visualBreaksPass } from './passes/grouping';
+import { layoutRowsPass } from './passes/layout';
+import { repeatedItemsPass } from './passes/patterns';
+import { mappingRulesPass } from './passes/rules';
+import { pruneEmptyPass } from './passes/simplify';
+import { sectionStylePass } from './passes/style';
+import { widgetsPass } from './passes/widgets';
+import { PIPELINE_STAGES, type ConversionOptions, type ConversionReport, type PipelinePass } from './types';
+
+export * from './types';
+export { HtmlParser } from './parse';
+export { YOOthemeEmitter } from './emitter';
+export { FRAMEWORK_DETECTORS, detectFramework } from './frameworks';
+export { BUILDER_ADAPTERS, detectBuilder } from './builders';
+export { WIDGET_DETECTORS } from './widgets';
+export { extractTheme, toLess } from './theme';
+
+export interface PipelineResult {
+  layout: LayoutOutput;
+  report: ConversionReport;
+}
+
+export interface PassPosition {
+  // Only orders passes within the same stage, stages always run in PIPELINE_STAGES order
+  before?: string;
+  after?: string;
+}
+
+export class ConversionPipeline {
+  private static passes: PipelinePass[] = [
+    detectFrameworkPass,
+    visualBreaksPass,
+    pageBuilderPass,
+    groupVisualSectionsPass,
+    layoutRowsPass,
+    mappingRulesPass,
+    widgetsPass,
+    repeatedItemsPass,
+    frameworkCardsPass,
+    pruneEmptyPass,
+    sectionStylePass,
+    sectionBackgroundPass,
+    frameworkUtilitiesPass
+  ];
+
+  // Passes in the order they run
+  static getPasses(): PipelinePass[] {
+    return this.passes
+      .map((pass, index) => ({ pass, index }))
+      .sort((a, b) => PIPELINE_STAGES.indexOf(a.pass.stage) - PIPELINE_STAGES.indexOf(b.pass.stage) || a.index - b.index)
+      .map(({ pass }) => pass);
+  }
+
+  // Registering a pass under an existing name replaces it
+  static register(pass: PipelinePass, position: PassPosition = {}): void {
+    this.passes = this.passes.filter(p => p.name !== pass.name);
+
+    const anchor = this.passes.findIndex(p => p.name === (position.before || position.after));
+    if (anchor === -1) {
+      this.passes.push(pass);
+    } else {
+      this.passes.splice(position.before ? anchor : anchor + 1, 0, pass);
+    }
+  }
+
+  static unregister(name: string): void {
+    this.passes = this.passes.filter(pass => pass.name !== name);
+  }
+
+  static run(data: WebsiteData, options: ConversionOptions = {}, passes: PipelinePass[] = this.getPasses()): PipelineResult {
+    const tree = HtmlParser.parse(data, options);
+    passes.forEach(pass => pass.run(tree));
+    return {
+      layout: YOOthemeEmitter.emit(tree),
+      report: tree.report
+    };
+  }
+}
@@ -0,0 +1,396 @@
+import type { WebsiteData } from '../joomlaConverter';
+import type { LayoutAssets } from '../layoutSchema';
+import { INLINE_TAGS, toInlineHtml } from './richText';
+import { extractTheme } from './theme';
+import type { ContentNode, ConversionOptions, PageTree, SectionNode, SectionRole } from './types';
+import { normalizeUrls, resolveUrl } from './urls';
+
+const SKIPPED_ELEMENTS = 'script, style, noscript, template, svg';
+
+const BUTTON_SELECTOR = 'button, a[class*="btn"], a[class*="button"], .button, input[type="submit"]';
+
+// Elements that turn into content blocks of their own
+const BLOCK_CONTENT = 'h1, h2, h3, h4, h5, h6, img, ul, ol, form, table, video, audio, iframe';
+
+// Shorter loose text is mostly labels and separators
+const MIN_TEXT_LENGTH = 15;
+
+// Wrappers around the page's sections, each of those becomes a section of its own
+const LANDMARKS = 'main, [role="main"]';
+
+const MEDIA = 'img, video, audio, iframe';
+
+export class HtmlParser {
+  static parse(data: WebsiteData, options: ConversionOptions = {}): PageTree {
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(data.html, 'text/html');
+    this.setBaseUrl(doc, data.metadata?.sourceURL);
+    normalizeUrls(doc, options.imageWidth);
+    const sections: SectionNode[] = [];
+
+    const header = doc.querySelector('header, nav, .header, .navbar, .nav-menu, [role="banner"]');
+    if (header) {
+      sections.push(this.createSection('header', header));
+    }
+
+    const footer = doc.querySelector('footer, .footer, [role="contentinfo"]');
+
+    // Comprehensive content discovery, grouping is left to the passes
+    const contentElements = this.discoverContentElements(doc, [header, footer].filter((el): el is Element => !!el));
+    contentElements.forEach(element => {
+      sections.push(this.createSection('content', element));
+    });
+
+    // If nothing was discovered, fall back to every content element in the body
+    if (contentElements.length === 0) {
+      this.extractBodyContent(doc).forEach(element => {
+        sections.push({ ...this.createSection('content', element), visualBreak: true });
+      });
+    }
+
+    if (footer) {
+      sections.push(this.createSection('footer', footer));
+    }
+
+    return {
+      source: data,
+      document: doc,
+      options,
+      sections,
+      assets: this.extractAssets(doc),
+      report: {
+        framework: null,
+        builder: null,
+        ruleMatches: []
+      }
+    };
+  }
+
+  static hasSignificantContent(element: Element): boolean {
+    const text = element.textContent?.trim() || '';
+    const hasImages = element.querySelectorAll('img').length > 0;
+    const hasMedia = element.querySelectorAll('video, audio, iframe').length > 0;
+    const hasForm = element.querySelectorAll('form, input, textarea, select').length > 0;
+
+    return text.length > 20 || hasImages || hasMedia || hasForm;
+  }
+
+  // Walks the DOM once in reading order, every node ends up in at most one content block
+  static extractComprehensiveContent(elements: Element[]): ContentNode[] {
+    const content: ContentNode[] = [];
+    elements.forEach(element => this.extractElement(element, content));
+    return content;
+  }
+
+  private static extractElement(element: Element, content: ContentNode[]): void {
+    if (element.matches(SKIPPED_ELEMENTS)) return;
+
+    const block = this.readBlock(element);
+    if (block) {
+      content.push(...block);
+    } else {
+      this.extractChildren(element, content);
+    }
+  }
+
+  // Loose text and inline elements between blocks are collected into one text node
+  private static extractChildren(element: Element, content: ContentNode[]): void {
+    let run: Node[] = [];
+
+    const flushText = () => {
+      const text = run.map(node => node.textContent || '').join('').trim();
+      if (text.length > MIN_TEXT_LENGTH) {
+        content.push({ type: 'text', element, content: toInlineHtml(run), start: run[0] });
+      }
+      run = [];
+    };
+
+    Array.from(element.childNodes).forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE || (child.nodeType === Node.ELEMENT_NODE && this.isInlineText(child as Element))) {
+        run.push(child);
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        flushText();
+        this.extractElement(child as Element, content);
+      }
+    });
+
+    flushText();
+  }
+
+  // Inline elements that hold nothing but text, e.g. a link or <strong> inside a paragraph
+  private static isInlineText(element: Element): boolean {
+    const isInline = (el: Element) => INLINE_TAGS.includes(el.tagName.toLowerCase()) && !el.matches(BUTTON_SELECTOR);
+    return isInline(element) && Array.from(element.querySelectorAll('*')).every(isInline);
+  }
+
+  // The content nodes an element turns into as a whole, null when its children are walked instead
+  private static readBlock(element: Element): ContentNode[] | null {
+    const tag = element.tagName.toLowerCase();
+
+    if (/^h[1-6]$/.test(tag)) {
+      return [{
+        type: 'heading',
+        element,
+        content: toInlineHtml(Array.from(element.childNodes)),
+        tag,
+        level: parseInt(tag.substring(1))
+      }];
+    }
+
+    if (tag === 'img') {
+      return [{
+        type: 'image',
+        element,
+        src: element.getAttribute('src') || '',
+        alt: element.getAttribute('alt') || '',
+        width: element.getAttribute('width'),
+        height: element.getAttribute('height')
+      }];
+    }
+
+    if (element.matches(BUTTON_SELECTOR)) {
+      const text = element.textContent?.trim() || '';
+      return text.length > 0 ? [{
+        type: 'button',
+        element,
+        content: text,
+        href: element.getAttribute('href') || element.getAttribute('data-href') || '#',
+        style: this.determineButtonStyle(element)
+      }] : [];
+    }
+
+    // Lists of plain items, lists holding headings, images or buttons are walked item by item
+    if (tag === 'ul' || tag === 'ol') {
+      const items = Array.from(element.querySelectorAll(':scope > li'));
+      if (items.some(item => item.querySelector(`${BLOCK_CONTENT}, ${BUTTON_SELECTOR}`))) return null;
+
+      const texts = items.map(li => li.textContent?.trim() || '');
+      return texts.length > 0 ? [{ type: 'list', element, items: texts, ordered: tag === 'ol' }] : [];
+    }
+
+    if (tag === 'form') {
+      const inputs = Array.from(element.querySelectorAll('input, textarea, select')).map(input => ({
+        type: input.getAttribute('type') || input.tagName.toLowerCase(),
+        name: input.getAttribute('name') || '',
+        placeholder: input.getAttribute('placeholder') || '',
+        required: input.hasAttribute('required')
+      }));
+
+      return inputs.length > 0 ? [{
+        type: 'form',
+        element,
+        action: element.getAttribute('action') || '',
+        method: element.getAttribute('method') || 'post',
+        inputs
+      }] : [];
+    }
+
+    if (tag === 'table') {
+      const headers = Array.from(element.querySelectorAll('th')).map(th => th.textContent?.trim() || '');
+      const rows = Array.from(element.querySelectorAll('tbody tr')).map(tr =>
+        Array.from(tr.querySelectorAll('td')).map(td => td.textContent?.trim() || '')
+      );
+
+      return headers.length > 0 || rows.length > 0 ? [{ type: 'table', element, headers, rows }] : [];
+    }
+
+    if (tag === 'video' || tag === 'audio' || tag === 'iframe') {
+      return [{
+        type: tag,
+        element,
+        src: element.getAttribute('src') || '',
+        width: element.getAttribute('width'),
+        height: element.getAttribute('height')
+      }];
+    }
+
+    return null;
+  }
+
+  // Relative links in the page resolve against the URL it was scraped from, not the converter
+  private static setBaseUrl(doc: Document, sourceURL?: string): void {
+    if (!sourceURL) return;
+
+    try {
+      const base = doc.querySelector('base[href]') || doc.head.appendChild(doc.createElement('base'));
+      base.setAttribute('href', new URL(base.getAttribute('href') || '', sourceURL).href);
+    } catch {
+      // Not a valid URL, links are kept as they are
+    }
+  }
+
+  private static createSection(role: SectionRole, element: Element): SectionNode {
+    return {
+      role,
+      elements: [element],
+      rows: [],
+      style: 'default',
+      padding: 'default',
+      verticalAlign: 'top'
+    };
+  }
+
+  // Nodes inside the header and footer are claimed by their sections already
+  private static discoverContentElements(doc: Document, claimed: Element[]): Element[] {
+    const contentSelectors = [
+      'main', 'section', 'article', 'div[class*="section"]', 'div[class*="content"]',
+      'div[class*="container"]', 'div[class*="wrapper"]', 'div[class*="row"]',
+      'div[id*="section"]', 'div[id*="content"]', '.hero', '.banner', '.feature',
+      '.testimonial', '.gallery', '.portfolio', '.about', '.service', '.product',
+      'aside', '.sidebar', '.widget', '.block', 'form', 'table', '.card',
+      'ul.menu', 'ul.list', 'dl', '.accordion', '.tabs', '.carousel'
+    ];
+
+    const elements: Element[] = [];
+    contentSelectors.forEach(selector => {
+      const found = doc.querySelectorAll(selector);
+      found.forEach(el => {
+        const isClaimed = claimed.some(chrome => chrome.contains(el));
+        if (!isClaimed && !this.isNestedElement(el, elements) && this.hasSignificantContent(el)) {
+          elements.push(el);
+        }
+      });
+    });
+
+    // Selectors are tried by priority, the page still reads top to bottom
+    return elements
+      .flatMap(el => this.splitLandmark(el))
+      .filter(el => !claimed.includes(el))
+      .sort((a, b) => a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1);
+  }
+
+  // Children next to the sections, such as an intro heading, join the section before them
+  private static splitLandmark(element: Element): Element[] {
+    if (!element.matches(LANDMARKS)) return [element];
+
+    let container = element;
+    while (container.children.length === 1 && !container.children[0].matches('section, article')) {
+      container = container.children[0];
+    }
+
+    const children = Array.from(container.children).filter(child =>
+      !child.matches(SKIPPED_ELEMENTS) && (child.textContent?.trim() || child.matches(MEDIA) || child.querySelector(MEDIA))
+    );
+    return children.some(child => child.matches('section, article')) ? children : [element];
+  }
+
+  private static isNestedElement(element: Element, existingElements: Element[]): boolean {
+    return existingElements.some(existing =>
+      existing.contains(element) || element.contains(existing)
+    );
+  }
+
+  private static extractBodyContent(doc: Document): Element[] {
+    const bodyElements: Element[] = [];
+    const body = doc.querySelector('body');
+
+    if (body) {
+      const walker = doc.createTreeWalker(
+        body,
+        NodeFilter.SHOW_ELEMENT,
+        {
+          acceptNode: (node) => {
+            const element = node as Element;
+            if (this.isContentElement(element) && this.hasSignificantContent(element)) {
+              return NodeFilter.FILTER_ACCEPT;
+            }
+            return NodeFilter.FILTER_SKIP;
+          }
+        }
+      );
+
+      let node = walker.nextNode();
+      while (node) {
+        bodyElements.push(node as Element);
+        node = walker.nextNode();
+      }
+    }
+
+    return bodyElements;
+  }
+
+  private static isContentElement(element: Element): boolean {
+    const contentTags = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'div', 'span', 'article', 'section'];
+    return contentTags.includes(element.tagName.toLowerCase()) &&
+           !element.closest('nav, header, footer, script, style');
+  }
+
+  private static determineButtonStyle(element: Element): string {
+    const className = element.className.toString().toLowerCase();
+    if (className.includes('primary') || className.includes('main')) return "primary";
+    if (className.includes('secondary')) return "secondary";
+    if (className.includes('outline')) return "outline";
+    if (className.includes('ghost')) return "text";
+    return "default";
+  }
+
+  private static extractAssets(doc: Document): LayoutAssets {
+    // Extract all images including background images
+    const images = new Set<string>();
+
+    // Standard img tags
+    doc.querySelectorAll('img').forEach(img => {
+      const src = img.getAttribute('src');
+      if (src) images.add(src);
+    });
+
+    // Background images from inline styles
+    doc.querySelectorAll('*').forEach(el => {
+      const style = el.getAttribute('style');
+      if (style && style.includes('background-image')) {
+        const match = style.match(/background-image:\s*url\(['"]?([^'")\s]+)['"]?\)/);
+        if (match && match[1]) images.add(resolveUrl(match[1], el.baseURI));
+      }
+    });
+
+    // Images from CSS content
+    const styleElements = doc.querySelectorAll('style');
+    styleElements.forEach(styleEl => {
+      const cssText = styleEl.textContent || '';
+      const matches = cssText.match(/url\(['"]?([^'")\s]+)['"]?\)/g);
+      if (matches) {
+        matches.forEach(match => {
+          const url = match.match(/url\(['"]?([^'")\s]+)['"]?\)/);
+          // Stylesheets pulled in with @import and web fonts aren't images
+          if (url && url[1] && !/\.(css|woff2?|ttf|otf|eot)(\?|#|$)/i.test(url[1])) images.add(resolveUrl(url[1], styleEl.baseURI));
+        });
+      }
+    });
+
+    // Extract comprehensive styles
+    const styles: string[] = [];
+
+    // Inline styles
+    doc.querySelectorAll('style').forEach(style => {
+      const cssText = style.textContent || '';
+      if (cssText.trim()) {
+        styles.push(cssText);
+      }
+    });
+
+    // External stylesheets
+    doc.querySelectorAll('link[rel="stylesheet"]').forEach(link => {
+      const href = link.getAttribute('href');
+      if (href) {
+        styles.push(`@import url('${href}');`);
+      }
+    });
+
+    // Extract color variables and custom properties
+    const bodyStyle = doc.querySelector('body')?.getAttribute('style') || '';
+    if (bodyStyle) {
+      styles.push(`body { ${bodyStyle} }`);
+    }
+
+    // The page's own CSS goes into YOOtheme's custom CSS, its colors, fonts and sizes become
+    // theme settings. UIkit comes with YOOtheme, so there's nothing to shim
+    const joomlaCSS = styles.length > 0 ? `/* Converted from original website */\n${styles.join('\n\n')}\n` : '';
+
+    // Packaging the assets rewrites these to the downloaded copies
+    return {
+      images: Array.from(images),
+      styles: joomlaCSS,
+      theme: extractTheme(doc)
+    };
+  }
+}
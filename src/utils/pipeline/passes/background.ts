@@ -0,0 +1,167 @@
+import { COLOR_PATTERN, getDeclaredStyle, getLuminance, parseColor, readStyleRules, type StyleRule } from '../styles';
+import type { PipelinePass, SectionBackground } from '../types';
+import { resolveUrl } from '../urls';
+import { forEachColumn } from './columns';
+
+// Below this luminance white text reads better than black
+const DARK_LUMINANCE = 0.179;
+
+// An overlay lighter than this barely tints the image
+const MIN_OVERLAY_ALPHA = 0.3;
+
+const BACKGROUND_VIDEO = 'video[autoplay], video[loop], video[class*="bg"], video[class*="background"]';
+
+const OVERLAY = '[class*="overlay"]';
+
+const POSITION_TOKEN = /^(top|bottom|left|right|center|\d+(\.\d+)?%)$/;
+
+// Wrappers such as <main> or .container may sit between the section and the element painting it
+const MAX_WRAPPER_DEPTH = 3;
+
+// Background images, colors, gradients and videos of the section's root become section props
+export const sectionBackgroundPass: PipelinePass = {
+  name: 'section-background',
+  stage: 'style',
+  description: 'Maps inline and stylesheet backgrounds, background videos and overlays to section backgrounds',
+  run(tree) {
+    const rules = readStyleRules(tree.document);
+    const videos: Element[] = [];
+
+    tree.sections.forEach(section => {
+      const root = findBackgroundRoot(section.elements[0], rules);
+      const video = root.querySelector(BACKGROUND_VIDEO);
+      const background = readBackground(root, video, rules);
+      if (!background) return;
+
+      section.background = background;
+      if (section.role === 'content') {
+        section.style = 'default';
+      }
+      if (background.video) {
+        videos.push(video!);
+      }
+    });
+
+    // A background video isn't content of its own
+    forEachColumn(tree, column => {
+      column.children = column.children.filter(child => !child.element || !videos.includes(child.element));
+    });
+  }
+};
+
+// The section's element, or the first one below it through single-child wrappers that declares a background
+function findBackgroundRoot(element: Element, rules: StyleRule[]): Element {
+  const hasBackground = (el: Element) => {
+    const style = getDeclaredStyle(el, rules);
+    return !!(style['background'] || style['background-image'] || style['background-color']);
+  };
+
+  let current = element;
+  for (let depth = 0; depth < MAX_WRAPPER_DEPTH && !hasBackground(current) && current.children.length === 1; depth++) {
+    current = current.children[0];
+  }
+
+  return hasBackground(current) ? current : element;
+}
+
+function readBackground(root: Element, video: Element | null, rules: StyleRule[]): SectionBackground | null {
+  const style = getDeclaredStyle(root, rules);
+  const layers = style['background-image'] || style['background'] || '';
+
+  // Stylesheets are inline, so their url()s are relative to the page like inline styles
+  const url = layers.match(/url\((['"]?)(.*?)\1\)/)?.[2];
+  const image = url && resolveUrl(url, root.baseURI);
+  const gradient = layers.match(/(?:linear|radial)-gradient\((.*)\)/)?.[1];
+  const gradientColor = gradient?.match(COLOR_PATTERN)?.[0];
+  const color = style['background-color'] || getShorthandColor(style['background']) || (!image ? gradientColor : undefined);
+  const videoSource = video && (video.getAttribute('src') || video.querySelector('source[src]')?.getAttribute('src'));
+
+  // A gradient over the image tints it, an overlay element does the same over images and videos
+  const overlay = (image && gradientColor) || getOverlayColor(root, rules);
+
+  const background: SectionBackground = {
+    ...(image && { image }),
+    ...(image && readPosition(style) && { imagePosition: readPosition(style)! }),
+    ...(image && readSize(style) && { imageSize: readSize(style)! }),
+    ...(videoSource && { video: videoSource }),
+    ...(color && parseColor(color)?.a !== 0 && { color }),
+    ...(overlay && { overlay })
+  };
+  if (Object.keys(background).length === 0) return null;
+
+  return { ...background, ...(isDark(background, style['color']) && { inverse: true }) };
+}
+
+// A tinted or colored background decides on its own, over a bare image or video the page's text color tells
+function isDark(background: SectionBackground, textColor?: string): boolean {
+  const overlay = background.overlay && parseColor(background.overlay);
+  if (overlay && overlay.a >= MIN_OVERLAY_ALPHA) return getLuminance(overlay) < DARK_LUMINANCE;
+
+  const color = background.color && parseColor(background.color);
+  if (color && !background.image && !background.video) return getLuminance(color) < DARK_LUMINANCE;
+
+  const text = textColor && parseColor(textColor);
+  return !!text && (!!background.image || !!background.video) && getLuminance(text) > 1 - DARK_LUMINANCE;
+}
+
+// The color layer of a background shorthand, outside any url() or gradient
+function getShorthandColor(shorthand?: string): string | undefined {
+  return shorthand && withoutLayers(shorthand).match(COLOR_PATTERN)?.pop();
+}
+
+// The shorthand without its url() and gradient layers, colors in rgb() and friends are kept
+function withoutLayers(shorthand: string): string {
+  let result = shorthand;
+  let match: RegExpExecArray | null;
+
+  while ((match = /(?:url|[\w-]*gradient)\(/.exec(result))) {
+    let depth = 0;
+    let end = match.index;
+    for (; end < result.length; end++) {
+      if (result[end] === '(') depth++;
+      if (result[end] === ')' && --depth === 0) break;
+    }
+    result = result.slice(0, match.index) + ' ' + result.slice(end + 1);
+  }
+
+  return result;
+}
+
+function getOverlayColor(root: Element, rules: StyleRule[]): string | undefined {
+  const overlay = root.querySelector(OVERLAY);
+  if (!overlay) return undefined;
+
+  const style = getDeclaredStyle(overlay, rules);
+  return style['background-color'] || getShorthandColor(style['background']);
+}
+
+// background-position keywords or percentages as a YOOtheme position like "center-left"
+function readPosition(style: Record<string, string>): string | null {
+  // In the shorthand the position comes before the size, separated by a slash
+  const shorthand = style['background'] && withoutLayers(style['background']).split('/')[0];
+  const value = style['background-position'] ||
+    shorthand?.split(/\s+/).filter(token => POSITION_TOKEN.test(token)).join(' ');
+  if (!value) return null;
+
+  let vertical = 'center';
+  let horizontal = 'center';
+
+  value.trim().split(/\s+/).forEach((token, index, tokens) => {
+    const percentage = token.endsWith('%') ? parseFloat(token) : null;
+    if (token === 'top' || token === 'bottom') vertical = token;
+    else if (token === 'left' || token === 'right') horizontal = token;
+    else if (percentage !== null) {
+      const keyword = percentage <= 25 ? 0 : percentage >= 75 ? 2 : 1;
+      // Two values are horizontal then vertical, a lone percentage is horizontal
+      if (index === 0 || tokens.length === 1) horizontal = ['left', 'center', 'right'][keyword];
+      else vertical = ['top', 'center', 'bottom'][keyword];
+    }
+  });
+
+  return `${vertical}-${horizontal}`;
+}
+
+function readSize(style: Record<string, string>): string | null {
+  const value = style['background-size'] || style['background']?.match(/\/\s*(cover|contain)/)?.[1];
+  return value === 'cover' || value === 'contain' ? value : null;
+}
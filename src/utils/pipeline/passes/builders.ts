@@ -0,0 +1,71 @@
+import { detectBuilder } from '../builders';
+import { HtmlParser } from '../parse';
+import type { BuilderRow, BuilderSection, PageBuilderAdapter, PipelinePass, RowNode, SectionNode } from '../types';
+import { nestRows, resolveColumnWidth, type NestedRowReader } from './layout';
+
+// Builder sections replace the content blocks discovered inside them, blocks outside any
+// builder section (sidebars, comments) are kept in document order
+export const pageBuilderPass: PipelinePass = {
+  name: 'page-builder',
+  stage: 'group',
+  description: 'Maps Elementor, Divi, WPBakery and Gutenberg sections, rows and columns directly',
+  run(tree) {
+    const adapter = detectBuilder(tree.document);
+    tree.report.builder = adapter ? { id: adapter.id, name: adapter.name } : null;
+    if (!adapter) return;
+
+    const chrome = tree.sections.filter(section => section.role !== 'content').flatMap(section => section.elements);
+    const builderSections = adapter.readSections(tree.document)
+      .filter(section => !section.elements.some(element => chrome.some(other => other.contains(element))))
+      .map(section => createSection(section, adapter));
+    if (builderSections.length === 0) return;
+
+    const builderElements = builderSections.flatMap(section => section.elements);
+    const overlaps = (element: Element) =>
+      builderElements.some(other => other.contains(element) || element.contains(other));
+
+    const content = [
+      ...tree.sections.filter(section => section.role === 'content' && !section.elements.some(overlaps)),
+      ...builderSections
+    ].sort((a, b) => a.elements[0].compareDocumentPosition(b.elements[0]) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1);
+
+    tree.sections = [
+      ...tree.sections.filter(section => section.role === 'header'),
+      ...content,
+      ...tree.sections.filter(section => section.role === 'footer')
+    ];
+  }
+};
+
+function createSection(section: BuilderSection, adapter: PageBuilderAdapter): SectionNode {
+  return {
+    role: 'content',
+    elements: section.elements,
+    rows: section.rows.map(row => createRow(row, adapter)),
+    // Builder sections are already whole visual sections
+    visualBreak: true,
+    style: 'default',
+    padding: 'default',
+    verticalAlign: 'top'
+  };
+}
+
+// Inner rows the adapter recognizes inside a column become nested rows, one level deep like YOOtheme
+function createRow(row: BuilderRow, adapter?: PageBuilderAdapter): RowNode {
+  const readNestedRow: NestedRowReader | undefined = adapter?.readNestedRow && (element => {
+    const nested = adapter.readNestedRow!(element);
+    return nested && nested.columns.length > 0 ? createRow(nested) : null;
+  });
+
+  return {
+    columns: row.columns.map(column => {
+      const children = HtmlParser.extractComprehensiveContent(column.elements);
+      return {
+        ...resolveColumnWidth(column.widths, row.columns.length),
+        children: readNestedRow ? nestRows(children, column.elements, readNestedRow) : children,
+        ...(column.elements.length === 1 ? { element: column.elements[0] } : { sources: column.elements })
+      };
+    }),
+    gap: row.gap || 'default'
+  };
+}
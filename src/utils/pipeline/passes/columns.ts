@@ -0,0 +1,21 @@
+import type { ColumnNode, PageTree, RowNode, SectionNode } from '../types';
+
+// Visits every column including those of nested rows, nested columns before the column holding them
+// so a pass claiming DOM nodes reaches the innermost column first
+export function forEachColumn(tree: PageTree, callback: (column: ColumnNode, section: SectionNode) => void): void {
+  tree.sections.forEach(section => visitRows(section.rows, column => callback(column, section)));
+}
+
+function visitRows(rows: RowNode[], callback: (column: ColumnNode) => void): void {
+  rows.forEach(row => row.columns.forEach(column => {
+    column.children.forEach(child => {
+      if (child.type === 'row') visitRows([child.row], callback);
+    });
+    callback(column);
+  }));
+}
+
+// The DOM a column's content was extracted from
+export function getColumnScope(column: ColumnNode, section: SectionNode): Element[] {
+  return column.element ? [column.element] : column.sources || section.elements;
+}
@@ -0,0 +1,34 @@
+import type { ContentNode } from '../types';
+
+// Helpers for passes that turn whole DOM subtrees into a single ready-made element
+
+export function findMatches(scope: Element[], selector: string): Element[] {
+  return scope.flatMap(root => [
+    ...(root.matches(selector) ? [root] : []),
+    ...Array.from(root.querySelectorAll(selector))
+  ]);
+}
+
+export function isClaimed(element: Element, claimed: Element[]): boolean {
+  return claimed.some(other => other.contains(element) || element.contains(other));
+}
+
+// Covered defaults to the replacement's own element, pass more for replacements built from sibling nodes
+export function replaceCoveredContent(
+  children: ContentNode[],
+  replacement: ContentNode,
+  covered: Element[] = [replacement.element!]
+): ContentNode[] {
+  const remaining = children.filter(child => !child.element || !covered.some(element => element.contains(child.element!)));
+
+  // Keep document order: insert before the first node that comes after the match. Text runs are
+  // placed by their first node, their element is the container they share with the match
+  const last = covered[covered.length - 1];
+  const index = remaining.findIndex(child => {
+    const node = (child.type === 'text' && child.start) || child.element;
+    return !!node && !!(last.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING);
+  });
+
+  remaining.splice(index === -1 ? remaining.length : index, 0, replacement);
+  return remaining;
+}
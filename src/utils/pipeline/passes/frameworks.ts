@@ -0,0 +1,128 @@
+import { detectFramework } from '../frameworks';
+import type { ContentNode, FrameworkDetector, PipelinePass } from '../types';
+import { forEachColumn, getColumnScope } from './columns';
+import { findMatches, isClaimed, replaceCoveredContent } from './elements';
+
+export const detectFrameworkPass: PipelinePass = {
+  name: 'detect-framework',
+  stage: 'classify',
+  description: 'Recognizes Bootstrap, Tailwind, Foundation, Bulma or UIkit pages so later passes can read their classes',
+  run(tree) {
+    const framework = detectFramework(tree.document);
+    tree.framework = framework || undefined;
+    tree.report.framework = framework ? { id: framework.id, name: framework.name } : null;
+  }
+};
+
+// Framework cards become YOOtheme panels
+export const frameworkCardsPass: PipelinePass = {
+  name: 'framework-cards',
+  stage: 'group',
+  description: 'Turns framework card components into panel elements',
+  run(tree) {
+    const framework = tree.framework;
+    if (!framework?.cardSelector) return;
+
+    const claimed: Element[] = [];
+
+    forEachColumn(tree, (column, section) => {
+      // Leave nodes a mapping rule or widget already turned into an element alone
+      claimed.push(...column.children
+        .filter(child => (child.type === 'element' || child.type === 'widget') && child.element)
+        .map(child => child.element!));
+      const scope = getColumnScope(column, section);
+
+      findMatches(scope, framework.cardSelector!).forEach(card => {
+        if (isClaimed(card, claimed)) return;
+        claimed.push(card);
+
+        column.children = replaceCoveredContent(column.children, {
+          type: 'element',
+          element: card,
+          elementType: 'panel',
+          props: createPanelProps(card, framework)
+        });
+      });
+    });
+  }
+};
+
+// Section styles, visibility, alignment and button styles straight from the framework's classes
+export const frameworkUtilitiesPass: PipelinePass = {
+  name: 'framework-utilities',
+  stage: 'style',
+  description: 'Applies framework section, visibility, text alignment and button classes',
+  run(tree) {
+    const framework = tree.framework;
+    if (!framework) return;
+
+    tree.sections.forEach(section => {
+      const root = section.elements[0];
+
+      if (section.role === 'content') {
+        section.style = framework.getSectionStyle(root) || section.style;
+        section.padding = framework.getSectionPadding(root) || section.padding;
+      }
+      section.visibility = framework.getVisibility(root) || undefined;
+    });
+
+    forEachColumn(tree, (column, section) => column.children.forEach(item => {
+      applyUtilities(item, section.elements, framework);
+    }));
+  }
+};
+
+function applyUtilities(item: ContentNode, roots: Element[], framework: FrameworkDetector): void {
+  // Nested rows are visited as columns of their own
+  if (!item.element || item.type === 'row') return;
+
+  // Visibility on the section itself is set on the section, alignment is inherited from it
+  item.visibility = findClosest(item.element, roots, false, el => framework.getVisibility(el)) || undefined;
+  item.textAlign = findClosest(item.element, roots, true, el => framework.getTextAlign(el)) || undefined;
+
+  if (item.type === 'button') {
+    item.style = framework.getButtonStyle(item.element) || item.style;
+  }
+}
+
+// Walks up from the node to the section it belongs to and returns the first value found
+function findClosest(
+  element: Element,
+  roots: Element[],
+  includeRoot: boolean,
+  read: (element: Element) => string | null
+): string | null {
+  let current: Element | null = element;
+
+  while (current && current.tagName.toLowerCase() !== 'body') {
+    const isRoot = roots.includes(current);
+    if (isRoot && !includeRoot) return null;
+
+    const value = read(current);
+    if (value || isRoot) return value;
+
+    current = current.parentElement;
+  }
+
+  return null;
+}
+
+function createPanelProps(card: Element, framework: FrameworkDetector): Record<string, unknown> {
+  const title = card.querySelector('h1, h2, h3, h4, h5, h6');
+  const image = card.querySelector('img');
+  const link = card.querySelector('a[href]');
+  const content = Array.from(card.querySelectorAll('p'))
+    .filter(paragraph => !paragraph.contains(title))
+    .map(paragraph => paragraph.textContent?.trim() || '')
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    panel_style: framework.getCardStyle(card) || 'card-default',
+    ...(title && { title: title.textContent?.trim() || '' }),
+    ...(content && { content }),
+    ...(image && { image: image.getAttribute('src') || '', image_alt: image.getAttribute('alt') || '' }),
+    ...(link && { link: link.getAttribute('href') || '', link_text: link.textContent?.trim() || '' }),
+    margin: 'default'
+  };
+}
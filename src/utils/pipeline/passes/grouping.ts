@@ -0,0 +1,56 @@
+import type { PipelinePass, SectionNode } from '../types';
+
+// Marks where a new visual section starts, sections without a break are merged into the previous one
+export const visualBreaksPass: PipelinePass = {
+  name: 'visual-breaks',
+  stage: 'classify',
+  description: 'Detects sections, articles and hero banners that start a new visual section',
+  run(tree) {
+    let previous: Element | undefined;
+
+    tree.sections.forEach(section => {
+      if (section.role !== 'content') return;
+
+      section.visualBreak ??= isVisualSectionBreak(section.elements[0], previous);
+      previous = section.elements[section.elements.length - 1];
+    });
+  }
+};
+
+export const groupVisualSectionsPass: PipelinePass = {
+  name: 'group-visual-sections',
+  stage: 'group',
+  description: 'Merges content blocks into the visual section they belong to',
+  run(tree) {
+    tree.sections = groupContentByVisualSections(tree.sections);
+  }
+};
+
+export function groupContentByVisualSections(sections: SectionNode[]): SectionNode[] {
+  const groups: SectionNode[] = [];
+
+  sections.forEach(section => {
+    const current = groups[groups.length - 1];
+
+    // A section that still needs laying out can't join one whose rows are already built
+    const canMerge = current?.role === 'content' && (current.rows.length === 0) === (section.rows.length === 0);
+
+    if (section.role === 'content' && !section.visualBreak && canMerge) {
+      current.elements.push(...section.elements);
+      current.rows.push(...section.rows);
+    } else {
+      groups.push(section);
+    }
+  });
+
+  return groups;
+}
+
+export function isVisualSectionBreak(element: Element, previousElement?: Element): boolean {
+  if (!previousElement) return true;
+
+  const breakSelectors = ['section', 'article', 'main', '.hero', '.banner'];
+  return breakSelectors.some(selector =>
+    element.matches(selector) || element.classList.toString().includes(selector.replace('.', ''))
+  );
+}
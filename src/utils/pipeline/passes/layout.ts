@@ -0,0 +1,335 @@
+import { HtmlParser } from '../parse';
+import { INLINE_TAGS, toInlineHtml } from '../richText';
+import { getWidestWidth, hasClass } from '../frameworks/utils';
+import type { ColumnNode, ColumnWidths, ContentNode, FrameworkDetector, GridInfo, PipelinePass, RowContent, RowNode } from '../types';
+import { replaceCoveredContent } from './elements';
+
+export interface GridStructure extends GridInfo {
+  container: Element;
+}
+
+// A row of a section: a grid, or a run of elements stacked in one full-width column
+export interface RowStructure {
+  elements: Element[];
+  grid?: GridStructure;
+}
+
+export interface LayoutStructure {
+  columns: number;
+  isGrid: boolean;
+  isFlex: boolean;
+  hasCards: boolean;
+  alignment: string;
+  layout: 'single' | 'multi-column';
+  rows: RowStructure[];
+}
+
+// Turns a grid found inside a column into the row nested there, null for anything else
+export type NestedRowReader = (element: Element) => RowNode | null;
+
+// Wrappers such as .container may sit between the section and its grid
+const MAX_GRID_DEPTH = 3;
+
+const MAX_COLUMNS = 6;
+
+// Class names of containers that lay their children out side by side
+const GRID_CLASS = /(^|[-_])(row|grid|columns)([-_]|$)/;
+
+const COLUMN_TAGS = ['div', 'article', 'section', 'aside', 'figure', 'li'];
+
+// Wrappers whose children are the page's sections, never columns of one
+const LANDMARKS = 'body, main, header, footer, nav, [role="main"]';
+
+// Class names of children that sit side by side without a grid class on their parent
+const CARD_CLASS = /(^|[-_])(card|item|box|tile|col|column|feature|panel)([-_]|$)/;
+
+// Fills every section that no earlier pass laid out with rows, columns and content
+export const layoutRowsPass: PipelinePass = {
+  name: 'layout-rows',
+  stage: 'group',
+  description: 'Splits sections into rows and columns and extracts their content',
+  run(tree) {
+    tree.sections.forEach(section => {
+      if (section.rows.length > 0) return;
+
+      switch (section.role) {
+        case 'header':
+          section.rows = [createHeaderRow(section.elements[0])];
+          break;
+        case 'footer':
+          section.rows = [createFooterRow(section.elements[0])];
+          break;
+        default: {
+          const structure = analyzeLayoutStructure(section.elements, tree.framework);
+          section.rows = organizeContentIntoRows(structure, section.elements, tree.framework);
+        }
+      }
+    });
+  }
+};
+
+export function analyzeLayoutStructure(elements: Element[], framework?: FrameworkDetector): LayoutStructure {
+  const structure: LayoutStructure = {
+    columns: 1,
+    isGrid: false,
+    isFlex: false,
+    hasCards: false,
+    alignment: 'left',
+    layout: 'single',
+    rows: []
+  };
+
+  if (elements.length === 0) {
+    return structure;
+  }
+
+  structure.rows = elements.flatMap(element => splitIntoRows(element, framework));
+
+  // Without a recognizable grid, fall back to class names and child counts on the first element
+  if (!structure.rows.some(row => row.grid) && elements.length === 1) {
+    const grid = detectGridHeuristically(elements[0], structure);
+    if (grid) {
+      structure.rows = [{ elements, grid }];
+    }
+  }
+
+  const grids = structure.rows.filter(row => row.grid).map(row => row.grid!);
+  if (grids.length > 0) {
+    structure.columns = Math.max(...grids.map(grid => grid.columns.length));
+    structure.layout = 'multi-column';
+  }
+
+  return structure;
+}
+
+export function organizeContentIntoRows(
+  structure: LayoutStructure,
+  originalElements: Element[],
+  framework?: FrameworkDetector
+): RowNode[] {
+  // Grids further down a column become nested rows, grids inside those are flattened
+  const readNestedRow: NestedRowReader = element => {
+    const grid = findGrid(element, framework);
+    return grid ? createGridRow(grid, framework) : null;
+  };
+
+  if (!structure.rows.some(row => row.grid)) {
+    return [createStackedRow(originalElements, readNestedRow)];
+  }
+
+  return structure.rows.map(row =>
+    row.grid ? createGridRow(row.grid, framework, readNestedRow) : createStackedRow(row.elements, readNestedRow)
+  );
+}
+
+export function createGridRow(grid: GridStructure, framework?: FrameworkDetector, readNestedRow?: NestedRowReader): RowNode {
+  return {
+    columns: grid.columns.map(column => {
+      const children = HtmlParser.extractComprehensiveContent([column]);
+      return {
+        ...resolveColumnWidth(framework?.getColumnWidths(column, grid.container) || {}, grid.columns.length),
+        children: readNestedRow ? nestRows(children, [column], readNestedRow) : children,
+        element: column
+      };
+    }),
+    gap: grid.gap || 'default'
+  };
+}
+
+// Replaces the content extracted from grids below the roots with nested rows, in source order
+export function nestRows(children: ContentNode[], roots: Element[], readNestedRow: NestedRowReader): ContentNode[] {
+  const nested: RowContent[] = [];
+
+  const visit = (element: Element) => Array.from(element.children).forEach(child => {
+    const row = readNestedRow(child);
+    if (row) {
+      nested.push({ type: 'row', element: child, row });
+    } else {
+      visit(child);
+    }
+  });
+  roots.forEach(visit);
+
+  return nested.reduce((result, row) => replaceCoveredContent(result, row), children);
+}
+
+// A grid the framework recognizes, or a flex/grid container whose children are all blocks
+export function findGrid(element: Element, framework?: FrameworkDetector): GridStructure | null {
+  const grid = framework?.getGrid(element) || getGenericGrid(element);
+  return grid && grid.columns.length > 1 ? { ...grid, container: element } : null;
+}
+
+export function getColumnWidth(columnCount: number): string {
+  switch (columnCount) {
+    case 2: return "1-2";
+    case 3: return "1-3";
+    case 4: return "1-4";
+    case 5: return "1-5";
+    case 6: return "1-6";
+    default: return "1-1";
+  }
+}
+
+// Source widths win, columns the source doesn't size share the row equally
+export function resolveColumnWidth(widths: ColumnWidths, columnCount: number): Pick<ColumnNode, 'width' | 'widths'> {
+  const width = getWidestWidth(widths);
+  return width ? { width, widths } : { width: getColumnWidth(columnCount) };
+}
+
+// Grids directly below the element become rows of their own, the content around them rows in between
+function splitIntoRows(root: Element, framework?: FrameworkDetector): RowStructure[] {
+  const grid = findGridThroughWrappers(root, framework);
+  if (grid) {
+    return [{ elements: [root], grid }];
+  }
+
+  let container = root;
+  for (let depth = 0; depth < MAX_GRID_DEPTH && container.children.length === 1; depth++) {
+    container = container.children[0];
+  }
+
+  const children = Array.from(container.children);
+  const grids = children.map(child => findGridThroughWrappers(child, framework));
+  if (!grids.some(Boolean)) {
+    return [{ elements: [root] }];
+  }
+
+  const rows: RowStructure[] = [];
+  let stacked: Element[] = [];
+
+  children.forEach((child, index) => {
+    const childGrid = grids[index];
+    if (!childGrid) {
+      stacked.push(child);
+      return;
+    }
+
+    if (stacked.length > 0) {
+      rows.push({ elements: stacked });
+      stacked = [];
+    }
+    rows.push({ elements: [child], grid: childGrid });
+  });
+
+  if (stacked.length > 0) {
+    rows.push({ elements: stacked });
+  }
+
+  return rows;
+}
+
+// The grid itself or one reached through single-child wrappers, so no content outside it is lost
+function findGridThroughWrappers(element: Element, framework?: FrameworkDetector): GridStructure | null {
+  let current: Element | undefined = element;
+
+  for (let depth = 0; current && depth <= MAX_GRID_DEPTH; depth++) {
+    const grid = findGrid(current, framework);
+    if (grid) return grid;
+    current = current.children.length === 1 ? current.children[0] : undefined;
+  }
+
+  return null;
+}
+
+function getGenericGrid(element: Element): GridInfo | null {
+  const style = element.getAttribute('style') || '';
+  const isFlexRow = /display:\s*(flex|grid)/.test(style) && !/flex-direction:\s*column/.test(style);
+  if (!isFlexRow && !hasClass(element, GRID_CLASS)) return null;
+
+  const columns = Array.from(element.children).filter(child => HtmlParser.hasSignificantContent(child));
+  const isBlockRow = columns.length <= MAX_COLUMNS && columns.every(column => COLUMN_TAGS.includes(column.tagName.toLowerCase()));
+  return isBlockRow ? { columns } : null;
+}
+
+// Only for cards, columns and inline blocks, sections and articles stacked inside a wrapper
+// stay rows of their own
+function detectGridHeuristically(primaryElement: Element, structure: LayoutStructure): GridStructure | null {
+  if (primaryElement.matches(LANDMARKS)) return null;
+
+  const className = primaryElement.className.toString();
+  const columnElements = Array.from(primaryElement.children).filter(child => HtmlParser.hasSignificantContent(child));
+  if (columnElements.some(child => child.matches('section, article'))) return null;
+
+  let columns = 0;
+
+  // Check for common grid/flexbox framework classes
+  const isBootstrapRow = className.includes('row');
+  const isTailwindGrid = className.includes('grid');
+
+  if (isBootstrapRow) {
+    const directChildrenCols = Array.from(primaryElement.children).filter(child =>
+      child.className.toString().includes('col-')
+    );
+    if (directChildrenCols.length > 1) {
+      columns = directChildrenCols.length;
+      structure.isGrid = true;
+    }
+  }
+
+  if (!columns && isTailwindGrid) {
+    const gridColsMatch = className.match(/grid-cols-(\d+)/);
+    if (gridColsMatch && parseInt(gridColsMatch[1]) > 1) {
+      columns = parseInt(gridColsMatch[1]);
+      structure.isGrid = true;
+    }
+  }
+
+  // Generic check for multiple significant card-like or inline direct children
+  if (!columns) {
+    const significantChildren = columnElements.filter(child =>
+      INLINE_TAGS.includes(child.tagName.toLowerCase()) || hasClass(child, CARD_CLASS)
+    );
+
+    if (significantChildren.length > 1 && significantChildren.length <= MAX_COLUMNS) {
+      columns = significantChildren.length;
+      structure.isFlex = className.includes('flex');
+      structure.isGrid = className.includes('grid');
+    }
+  }
+
+  // Content next to the columns, e.g. a short heading, would be lost
+  const hasLooseContent = Array.from(primaryElement.children).some(child =>
+    !columnElements.includes(child) && (child.textContent?.trim() || child.querySelector('img'))
+  );
+  if (columns === 0 || columnElements.length !== columns || hasLooseContent) {
+    return null;
+  }
+
+  return {
+    container: primaryElement,
+    columns: columnElements,
+    gap: structure.isGrid ? 'large' : 'default'
+  };
+}
+
+function createStackedRow(elements: Element[], readNestedRow: NestedRowReader): RowNode {
+  return {
+    columns: [{
+      width: '1-1',
+      children: nestRows(HtmlParser.extractComprehensiveContent(elements), elements, readNestedRow),
+      ...(elements.length === 1 ? { element: elements[0] } : { sources: elements })
+    }],
+    gap: 'default'
+  };
+}
+
+function createHeaderRow(element: Element): RowNode {
+  const nav = element.querySelector('nav') || element;
+  const links = Array.from(nav.querySelectorAll('a')).map(a => ({
+    text: a.textContent?.trim() || '',
+    href: a.getAttribute('href') || '#'
+  }));
+
+  return {
+    columns: [{ width: '1-1', children: [{ type: 'nav', element: nav, links }] }]
+  };
+}
+
+function createFooterRow(element: Element): RowNode {
+  return {
+    columns: [{
+      width: '1-1',
+      children: [{ type: 'text', element, content: toInlineHtml(Array.from(element.childNodes)), align: 'center' }]
+    }]
+  };
+}
@@ -0,0 +1,134 @@
+import type { ColumnWidths, FrameworkDetector, PipelinePass, RowNode, WidgetContent } from '../types';
+import { readItem } from '../widgets/utils';
+import { forEachColumn, getColumnScope } from './columns';
+import { isClaimed, replaceCoveredContent } from './elements';
+
+// Fewer siblings are as likely to be a coincidence as a pattern
+const MIN_ITEMS = 3;
+
+// Columns per row when the source doesn't say, used on medium screens and up
+const DEFAULT_COLUMNS = 3;
+
+const IGNORED_CHILDREN = 'script, style, template, br, hr';
+
+// Repeated page sections are a page's structure, not items of one element
+const SECTION_TAGS = ['main', 'section', 'header', 'footer', 'nav', 'aside', 'form'];
+
+// Sibling nodes sharing one structure (features, team members, teasers) become a grid with an item each
+export const repeatedItemsPass: PipelinePass = {
+  name: 'repeated-items',
+  stage: 'group',
+  description: 'Turns repeated sibling structures into grid elements',
+  run(tree) {
+    tree.sections.forEach(section => {
+      section.rows = section.rows.map(row => collapseRepeatedRow(row, tree.framework));
+    });
+
+    const claimed: Element[] = [];
+
+    forEachColumn(tree, (column, section) => {
+      // Leave nodes a mapping rule or widget already turned into an element alone
+      claimed.push(...column.children
+        .filter(child => (child.type === 'element' || child.type === 'widget') && child.element)
+        .map(child => child.element!));
+
+      // Outer containers come first, a pattern inside an item stays part of the item
+      getColumnScope(column, section)
+        .flatMap(root => [root, ...Array.from(root.querySelectorAll('*'))])
+        .forEach(container => {
+          if (isClaimed(container, claimed)) return;
+
+          const items = findRepeatedItems(container);
+          if (!items) return;
+          claimed.push(container);
+
+          column.children = replaceCoveredContent(column.children, createGrid(container, items, tree.framework));
+        });
+    });
+  }
+};
+
+// A row whose columns repeat one structure and wrap onto several lines is a grid, e.g. eight
+// col-md-3 cards; columns that fit on one line stay a row
+function collapseRepeatedRow(row: RowNode, framework?: FrameworkDetector): RowNode {
+  const elements = row.columns.map(column => column.element);
+  const container = elements[0]?.parentElement;
+  if (!container || elements.some(element => element?.parentElement !== container)) return row;
+
+  const items = findRepeatedItems(container);
+  const wraps = row.columns.reduce((total, column) => total + toFraction(column.width), 0) > 1;
+  if (!items || !wraps || items.length !== elements.length) return row;
+
+  return {
+    columns: [{ width: '1-1', element: container, children: [createGrid(container, items, framework)] }],
+    gap: row.gap
+  };
+}
+
+function createGrid(container: Element, items: Element[], framework?: FrameworkDetector): WidgetContent {
+  return {
+    type: 'widget',
+    element: container,
+    widgetType: 'grid',
+    items: items.map(item => readItem(item)),
+    props: createGridProps(container, items, framework)
+  };
+}
+
+// The container's children when they all share one item structure, null otherwise
+function findRepeatedItems(container: Element): Element[] | null {
+  const children = Array.from(container.children)
+    .filter(child => !child.matches(IGNORED_CHILDREN))
+    .filter(child => child.textContent?.trim() || child.querySelector('img'));
+  if (children.length < MIN_ITEMS) return null;
+
+  if (SECTION_TAGS.includes(children[0].tagName.toLowerCase())) return null;
+
+  const signature = getSignature(children[0]);
+  const isItem = signature.includes('heading') || signature.includes('image');
+  const isComposite = signature.split(',').length > 2;
+
+  return isItem && isComposite && children.every(child => getSignature(child) === signature) ? children : null;
+}
+
+// Tag plus the kinds of content an item is made of, e.g. "article,image,heading,text"
+function getSignature(element: Element): string {
+  const heading = element.querySelector('h1, h2, h3, h4, h5, h6');
+  const headingText = heading?.textContent?.trim().length || 0;
+  const textLength = (element.textContent?.trim().length || 0) - headingText;
+
+  return [
+    element.tagName.toLowerCase(),
+    ...(element.querySelector('img') ? ['image'] : []),
+    ...(heading ? ['heading'] : []),
+    ...(textLength > 0 ? ['text'] : []),
+    ...(element.querySelector('a[href]') ? ['link'] : [])
+  ].join(',');
+}
+
+// Columns from the framework's classes where it sizes the items, cards keep their panel style
+function createGridProps(container: Element, items: Element[], framework?: FrameworkDetector): Record<string, unknown> {
+  const columns = toGridColumns(framework?.getColumnWidths(items[0], container) || {});
+  const card = framework?.cardSelector && (items[0].matches(framework.cardSelector) ? items[0] : items[0].querySelector(framework.cardSelector));
+
+  return {
+    ...(Object.keys(columns).length > 0 ? columns : {
+      grid_default: '1',
+      grid_medium: String(Math.min(items.length, DEFAULT_COLUMNS))
+    }),
+    ...(card && { panel_style: framework!.getCardStyle(card) || 'card-default' })
+  };
+}
+
+// A 1-N column width is N items per row
+function toGridColumns(widths: ColumnWidths): Record<string, string> {
+  return Object.fromEntries(Object.entries(widths)
+    .map(([breakpoint, width]) => [`grid_${breakpoint}`, width?.match(/^1-(\d)$/)?.[1]])
+    .filter(([, columns]) => columns));
+}
+
+// Share of the row a YOOtheme width takes, auto and expand widths are left out
+function toFraction(width: string): number {
+  const match = width.match(/^(\d)-(\d)$/);
+  return match ? parseInt(match[1]) / parseInt(match[2]) : 0;
+}
@@ -0,0 +1,43 @@
+import { applyPropMappings, getNodePath, sortRules } from '../../mappingRules';
+import type { PipelinePass } from '../types';
+import { forEachColumn, getColumnScope } from './columns';
+import { findMatches, isClaimed, replaceCoveredContent } from './elements';
+
+// Nodes matched by a user rule replace whatever was extracted from inside them
+export const mappingRulesPass: PipelinePass = {
+  name: 'mapping-rules',
+  stage: 'group',
+  description: 'Turns nodes matching the project mapping rules into the configured YOOtheme elements',
+  run(tree) {
+    const rules = sortRules(tree.options.rules || []);
+    if (rules.length === 0) return;
+
+    const claimed: Element[] = [];
+
+    forEachColumn(tree, (column, section) => {
+      const scope = getColumnScope(column, section);
+
+      rules.forEach(rule => {
+        findMatches(scope, rule.selector).forEach(element => {
+          // Each DOM subtree belongs to one rule, the highest priority one
+          if (isClaimed(element, claimed)) return;
+          claimed.push(element);
+
+          column.children = replaceCoveredContent(column.children, {
+            type: 'element',
+            element,
+            elementType: rule.element,
+            props: applyPropMappings(rule, element),
+            ruleId: rule.id
+          });
+
+          tree.report.ruleMatches.push({
+            ruleId: rule.id,
+            path: getNodePath(element),
+            snippet: element.outerHTML.replace(/\s+/g, ' ').slice(0, 200)
+          });
+        });
+      });
+    });
+  }
+};
@@ -0,0 +1,24 @@
+import type { PipelinePass, RowNode } from '../types';
+
+// Drops columns, rows (nested ones too) and sections that ended up without any content
+export const pruneEmptyPass: PipelinePass = {
+  name: 'prune-empty',
+  stage: 'simplify',
+  description: 'Removes empty columns, rows and sections',
+  run(tree) {
+    tree.sections = tree.sections.filter(section => {
+      section.rows = pruneRows(section.rows);
+      return section.rows.length > 0;
+    });
+  }
+};
+
+function pruneRows(rows: RowNode[]): RowNode[] {
+  return rows.filter(row => {
+    row.columns = row.columns.filter(column => {
+      column.children = column.children.filter(child => child.type !== 'row' || pruneRows([child.row]).length > 0);
+      return column.children.length > 0;
+    });
+    return row.columns.length > 0;
+  });
+}
@@ -0,0 +1,48 @@
+import type { PipelinePass } from '../types';
+
+export const sectionStylePass: PipelinePass = {
+  name: 'section-style',
+  stage: 'style',
+  description: 'Picks section styles and padding from hero classes, position and content size',
+  run(tree) {
+    let index = 0;
+
+    tree.sections.forEach(section => {
+      switch (section.role) {
+        case 'header':
+          section.style = 'primary';
+          section.verticalAlign = 'middle';
+          break;
+        case 'footer':
+          section.style = 'secondary';
+          break;
+        default:
+          section.style = determineSectionStyle(section.elements, index++);
+          section.padding = determinePadding(section.elements);
+          section.margin = 'default';
+      }
+    });
+  }
+};
+
+export function determineSectionStyle(elements: Element[], index: number): string {
+  const hasHero = elements.some(el =>
+    el.classList.toString().includes('hero') ||
+    el.classList.toString().includes('banner') ||
+    el.classList.toString().includes('jumbotron')
+  );
+
+  if (hasHero) return "primary";
+  if (index === 0) return "default";
+  if (index % 2 === 0) return "muted";
+  return "default";
+}
+
+export function determinePadding(elements: Element[]): string {
+  const hasLargeContent = elements.some(el => {
+    const text = el.textContent?.trim() || '';
+    return text.length > 500 || el.querySelectorAll('img, video').length > 2;
+  });
+
+  return hasLargeContent ? "large" : "default";
+}
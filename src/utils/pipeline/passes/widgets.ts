@@ -0,0 +1,48 @@
+import type { PipelinePass, WidgetDetector } from '../types';
+import { WIDGET_DETECTORS } from '../widgets';
+import { forEachColumn, getColumnScope } from './columns';
+import { findMatches, isClaimed, replaceCoveredContent } from './elements';
+
+// Carousels, accordions and tabs become YOOtheme multi-item elements instead of loose content
+export const widgetsPass: PipelinePass = {
+  name: 'widgets',
+  stage: 'group',
+  description: 'Turns carousels, accordions and tabs into slideshow, slider, accordion and switcher elements',
+  run(tree) {
+    const claimed: Element[] = [];
+
+    forEachColumn(tree, (column, section) => {
+      // Leave nodes a mapping rule already turned into an element alone
+      claimed.push(...column.children
+        .filter(child => child.type === 'element' && child.element)
+        .map(child => child.element!));
+      const scope = getColumnScope(column, section);
+
+      // Outer widgets first, a carousel inside a tab pane becomes part of the pane's content
+      const matches = WIDGET_DETECTORS
+        .flatMap(detector => findMatches(scope, detector.selector).map(element => ({ detector, element })))
+        .sort(byDocumentOrder);
+
+      matches.forEach(({ detector, element }) => {
+        if (isClaimed(element, claimed)) return;
+
+        const widget = detector.read(element);
+        if (!widget || widget.items.length === 0 || widget.elements.some(el => isClaimed(el, claimed))) return;
+        claimed.push(...widget.elements);
+
+        column.children = replaceCoveredContent(column.children, {
+          type: 'widget',
+          element: widget.elements[0],
+          widgetType: widget.type,
+          items: widget.items
+        }, widget.elements);
+      });
+    });
+  }
+};
+
+// Ancestors before their descendants, the detector order decides between matches on the same element
+function byDocumentOrder(a: { detector: WidgetDetector; element: Element }, b: { detector: WidgetDetector; element: Element }): number {
+  if (a.element === b.element) return WIDGET_DETECTORS.indexOf(a.detector) - WIDGET_DETECTORS.indexOf(b.detector);
+  return a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { LayoutElement } from '../layoutSchema';
+import { convertSections, findAll } from './testing';
+
+const columnTypes = (section: LayoutElement): string[][] =>
+  findAll([section], 'column').map(column => column.children.map(child => child.type));
+
+const PAGE = `<html><head><style>.hero { background-image: url(/hero.jpg) }</style></head><body>
+<header><div class="container"><nav><a href="/about">About us</a><a href="/contact">Contact page</a><a href="/blog">Our blog posts</a></nav></div></header>
+<main>
+<section class="hero"><h1>Welcome to the site</h1><p>A hero paragraph that is long enough to be kept as text.</p></section>
+<section><h2>Features we offer</h2><p>Feature text that is long enough to be kept as text here.</p></section>
+<section><h2>Questions people ask</h2><p>Question text that is long enough to be kept as text too.</p></section>
+<section><h2>Get in touch today</h2><p>Closing text that is long enough to be kept as text as well.</p></section>
+</main>
+<footer><p>Copyright 2024 with footer text that is long enough to keep</p></footer>
+</body></html>`;
+
+describe('ConversionPipeline', () => {
+  it('splits a main element into one section per child section', () => {
+    const sections = convertSections(PAGE);
+    const headings = sections.map(section => findAll([section], 'heading').map(heading => heading.props.content));
+
+    expect(sections).toHaveLength(6);
+    expect(headings.slice(1, 5)).toEqual([
+      ['Welcome to the site'],
+      ['Features we offer'],
+      ['Questions people ask'],
+      ['Get in touch today']
+    ]);
+    sections.slice(1, 5).forEach(section => expect(columnTypes(section)).toEqual([['heading', 'text']]));
+    expect(sections[1].props.image).toBe('https://example.com/hero.jpg');
+  });
+
+  it('emits header links once, as nav items of the header row', () => {
+    const sections = convertSections(PAGE);
+    const items = findAll(sections, 'nav_item');
+
+    expect(findAll([sections[0]], 'nav')).toHaveLength(1);
+    expect(items.map(item => item.props.content)).toEqual(['About us', 'Contact page', 'Our blog posts']);
+    expect(items.map(item => item.props.link)).toEqual([
+      'https://example.com/about',
+      'https://example.com/contact',
+      'https://example.com/blog'
+    ]);
+  });
+
+  it('keeps loose text in document order around a widget', () => {
+    const [section] = convertSections(`<html><body><section><div class="wrap">
+<p>Intro text before the accordion that is long enough to be kept.</p>
+<div class="accordion">
+<div class="accordion-item"><h3 class="accordion-header"><button class="accordion-button">First question</button></h3><div class="accordion-collapse"><div class="accordion-body">The first answer, long enough to keep.</div></div></div>
+<div class="accordion-item"><h3 class="accordion-header"><button class="accordion-button">Second question</button></h3><div class="accordion-collapse"><div class="accordion-body">The second answer, long enough to keep.</div></div></div>
+</div>
+Trailing loose text after the accordion that should come last.
+</div></section></body></html>`);
+
+    expect(columnTypes(section)).toEqual([['text', 'accordion', 'text']]);
+    expect(findAll([section], 'text').map(text => String(text.props.content))).toEqual([
+      expect.stringContaining('Intro text'),
+      expect.stringContaining('Trailing loose text')
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+// Inline markup kept in text and heading content, everything else is unwrapped to its text
+
+// Allowed tags with the attributes they may keep
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'title', 'target', 'rel'],
+  abbr: ['title'],
+  b: [],
+  br: [],
+  cite: [],
+  code: [],
+  del: [],
+  em: [],
+  i: [],
+  ins: [],
+  kbd: [],
+  mark: [],
+  q: [],
+  s: [],
+  small: [],
+  strong: [],
+  sub: [],
+  sup: [],
+  u: []
+};
+
+// Dropped together with their content
+const DROPPED_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'object', 'embed', 'iframe', 'button', 'input', 'select', 'textarea'];
+
+export const INLINE_TAGS = [
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'i', 'ins', 'kbd',
+  'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr'
+];
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Marks where an unwrapped block element started or ended
+const BLOCK_BREAK = '\u2029';
+
+// Sanitized inline HTML of the nodes, block elements inside them become line breaks
+export function toInlineHtml(nodes: Node[]): string {
+  return nodes.map(serializeNode).join('')
+    .replace(/[ \t\n\r\f]+/g, ' ')
+    .replace(new RegExp(` ?${BLOCK_BREAK}[ ${BLOCK_BREAK}]*`, 'g'), '<br>')
+    .replace(/^( |<br>)+|( |<br>)+$/g, '');
+}
+
+function serializeNode(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeHtml(node.textContent || '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (DROPPED_TAGS.includes(tag)) return '';
+
+  const children = Array.from(element.childNodes).map(serializeNode).join('');
+
+  if (!(tag in ALLOWED_TAGS)) {
+    return INLINE_TAGS.includes(tag) ? children : BLOCK_BREAK + children + BLOCK_BREAK;
+  }
+  if (tag === 'br') return '<br>';
+
+  const attributes = ALLOWED_TAGS[tag]
+    .map(name => [name, name === 'href' ? resolveHref(element) : element.getAttribute(name)])
+    .filter(([, value]) => value)
+    .map(([name, value]) => ` ${name}="${escapeHtml(value!)}"`)
+    .join('');
+
+  // A link whose href was dropped is just text
+  if (tag === 'a' && !attributes.includes(' href=')) return children;
+
+  return `<${tag}${attributes}>${children}</${tag}>`;
+}
+
+// Links are made absolute against the page they came from, unless that page is a local file
+export function resolveHref(link: Element): string | null {
+  const href = link.getAttribute('href')?.trim();
+  if (!href) return null;
+  if (href.startsWith('#')) return href;
+
+  try {
+    const url = new URL(href, link.baseURI);
+    if (url.protocol === 'file:') return href;
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,147 @@
+// Just enough CSS reading to tell which declarations apply to an element, without a browser's cascade:
+// rules apply in source order, specificity and rules inside @media and other at-rules are ignored
+
+export interface StyleRule {
+  selector: string;
+  declarations: Record<string, string>;
+}
+
+// Plain rules of the page's <style> elements in source order
+export function readStyleRules(doc: Document): StyleRule[] {
+  const css = Array.from(doc.querySelectorAll('style'))
+    .map(style => style.textContent || '')
+    .join('\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/@(import|charset|namespace)[^;]*;/g, '');
+
+  const rules: StyleRule[] = [];
+  let position = 0;
+
+  while (position < css.length) {
+    const open = css.indexOf('{', position);
+    if (open === -1) break;
+
+    const selector = css.slice(position, open).trim();
+    const close = findClosingBrace(css, open);
+    if (!selector.startsWith('@')) {
+      rules.push({ selector, declarations: parseDeclarations(css.slice(open + 1, close)) });
+    }
+    position = close + 1;
+  }
+
+  return rules;
+}
+
+// Declarations of the matching rules, the element's inline style last
+export function getDeclaredStyle(element: Element, rules: StyleRule[]): Record<string, string> {
+  const style: Record<string, string> = {};
+
+  rules.forEach(rule => {
+    if (matchesSelector(element, rule.selector)) {
+      Object.assign(style, rule.declarations);
+    }
+  });
+
+  return Object.assign(style, parseDeclarations(element.getAttribute('style') || ''));
+}
+
+export function parseDeclarations(text: string): Record<string, string> {
+  return Object.fromEntries(splitOutsideParentheses(text, ';')
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      return [
+        declaration.slice(0, colon).trim().toLowerCase(),
+        declaration.slice(colon + 1).replace(/!important\s*$/i, '').trim()
+      ];
+    })
+    .filter(([property, value]) => property && value));
+}
+
+// Splits on the separator except inside url(...), gradients and other functions
+export function splitOutsideParentheses(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth = Math.max(0, depth - 1);
+    else if (text[i] === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  return [...parts, text.slice(start)].filter(part => part.trim());
+}
+
+// Each selector of a list on its own, so one unsupported selector doesn't hide the others
+function matchesSelector(element: Element, selectorList: string): boolean {
+  return splitOutsideParentheses(selectorList, ',').some(selector => {
+    try {
+      return element.matches(selector);
+    } catch {
+      // Pseudo-elements and syntax the DOM doesn't support
+      return false;
+    }
+  });
+}
+
+function findClosingBrace(css: string, open: number): number {
+  let depth = 0;
+
+  for (let i = open; i < css.length; i++) {
+    if (css[i] === '{') depth++;
+    if (css[i] === '}' && --depth === 0) return i;
+  }
+
+  return css.length;
+}
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const NAMED_COLORS: Record<string, Rgba> = {
+  black: { r: 0, g: 0, b: 0, a: 1 },
+  white: { r: 255, g: 255, b: 255, a: 1 },
+  transparent: { r: 0, g: 0, b: 0, a: 0 }
+};
+
+// Color values such as hex, rgb() and rgba() found in a declaration, in order
+export const COLOR_PATTERN = /#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|\b(?:black|white|transparent)\b/gi;
+
+// Hex, rgb() and rgba() colors, null for anything else
+export function parseColor(value: string): Rgba | null {
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/)?.[1];
+  if (hex && [3, 4, 6, 8].includes(hex.length)) {
+    const digits = hex.length <= 4 ? hex.split('').map(digit => digit + digit) : hex.match(/../g)!;
+    const [r, g, b, a = 255] = digits.map(pair => parseInt(pair, 16));
+    return { r, g, b, a: a / 255 };
+  }
+
+  const rgb = color.match(/^rgba?\(([^)]*)\)$/)?.[1];
+  if (rgb) {
+    const [r, g, b, a = '1'] = rgb.split(/[\s,/]+/).filter(Boolean);
+    const channel = (part: string) => part.endsWith('%') ? parseFloat(part) * 2.55 : parseFloat(part);
+    const alpha = a.endsWith('%') ? parseFloat(a) / 100 : parseFloat(a);
+    return [r, g, b].some(part => part === undefined) ? null : { r: channel(r), g: channel(g), b: channel(b), a: alpha };
+  }
+
+  return null;
+}
+
+// Relative luminance from 0 for black to 1 for white
+export function getLuminance({ r, g, b }: Rgba): number {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
@@ -0,0 +1,20 @@
+import type { LayoutElement } from '../layoutSchema';
+import { ConversionPipeline, type PipelineResult } from './index';
+
+// Runs the pipeline over a fixture page the way a crawl result would reach it
+export const convertFixture = (html: string, sourceURL = 'https://example.com/'): PipelineResult => ConversionPipeline.run({
+  content: '',
+  markdown: '',
+  html,
+  metadata: { title: 'Fixture', description: '', language: 'en', sourceURL }
+});
+
+// Sections of the converted fixture
+export const convertSections = (html: string): LayoutElement[] => convertFixture(html).layout.layout.children;
+
+export const findAll = (elements: LayoutElement[], type: string): LayoutElement[] =>
+  elements.flatMap(element => [...(element.type === type ? [element] : []), ...findAll(element.children, type)]);
+
+// Props of every column on the page, in document order
+export const columnProps = (html: string): Record<string, unknown>[] =>
+  findAll(convertSections(html), 'column').map(column => column.props);
@@ -0,0 +1,134 @@
+import { getDeclaredStyle, parseColor, readStyleRules, type Rgba, type StyleRule } from './styles';
+
+// YOOtheme style settings read from the page's CSS, LESS variable → value
+
+const BUTTON = 'button, .btn, .button, [class*="btn-"], input[type="submit"], .wp-block-button__link';
+const CONTAINER = '.container, .wrapper, .wrap, [class*="container"], .site-inner, .inner';
+const CARD = '.card, .panel, .box, [class*="card"]';
+
+// Custom properties themes and frameworks name their brand colors with
+const PRIMARY_VARIABLE = /^--(?:[\w-]*-)?(primary|brand|main)(?:-color)?$/;
+const SECONDARY_VARIABLE = /^--(?:[\w-]*-)?(secondary|accent)(?:-color)?$/;
+
+// Grays, blacks and whites are text and backgrounds, not brand colors
+const MIN_SATURATION = 0.15;
+
+// What rem, em and percentages are relative to in a browser's default style
+const ROOT_FONT_SIZE = 16;
+
+export function extractTheme(doc: Document): Record<string, string> {
+  const rules = readStyleRules(doc);
+  const variables = getDeclaredStyle(doc.documentElement, rules);
+  const read = (selector: string, property: string) => {
+    const element = doc.querySelector(selector);
+    const value = element && getDeclaredStyle(element, rules)[property];
+    return value ? resolveVariables(value, variables) : undefined;
+  };
+
+  const body = doc.body ? resolveAll(getDeclaredStyle(doc.body, rules), variables) : {};
+  // rem and em follow the root font size, e.g. 62.5% for 1rem = 10px
+  const rootSize = parseFloat(toPixels(read('html', 'font-size'), ROOT_FONT_SIZE, ROOT_FONT_SIZE) || '') || ROOT_FONT_SIZE;
+  const [primary, secondary] = findBrandColors(rules, variables);
+  const bodyFont = body['font-family'] || parseFont(body['font']).family;
+  const headingFont = read('h1, h2, h3', 'font-family') || parseFont(read('h1, h2, h3', 'font')).family;
+  const fontSize = body['font-size'] || parseFont(body['font']).size;
+
+  const theme: Record<string, string | undefined> = {
+    '@global-primary-background': primary,
+    '@global-secondary-background': secondary,
+    '@global-link-color': toColor(read('a[href]', 'color')),
+    '@global-color': toColor(body['color']),
+    '@global-emphasis-color': toColor(read('h1, h2, h3', 'color')),
+    '@global-background': toColor(body['background-color'] || body['background']),
+    '@global-font-family': bodyFont && cleanFamily(bodyFont),
+    '@base-heading-font-family': headingFont && headingFont !== bodyFont ? cleanFamily(headingFont) : undefined,
+    '@global-font-size': toPixels(fontSize, rootSize, rootSize) || (rootSize !== ROOT_FONT_SIZE ? `${rootSize}px` : undefined),
+    '@button-border-radius': toPixels(read(BUTTON, 'border-radius'), rootSize),
+    '@card-border-radius': toPixels(read(CARD, 'border-radius'), rootSize),
+    '@container-max-width': toPixels(read(CONTAINER, 'max-width'), rootSize)
+  };
+
+  return Object.fromEntries(Object.entries(theme).filter((entry): entry is [string, string] => !!entry[1]));
+}
+
+// Settings as LESS variable overrides, ready to paste into the customizer
+export function toLess(theme: Record<string, string>): string {
+  return Object.entries(theme).map(([variable, value]) => `${variable}: ${value};`).join('\n');
+}
+
+// Named brand colors first, then the colors buttons are painted in by how often they're used
+function findBrandColors(rules: StyleRule[], variables: Record<string, string>): [string?, string?] {
+  const named = (pattern: RegExp) => Object.entries(variables)
+    .filter(([name]) => pattern.test(name))
+    .map(([, value]) => toBrandColor(resolveVariables(value, variables)))
+    .find(Boolean);
+
+  const counts = new Map<string, number>();
+  rules
+    .filter(rule => rule.selector.split(',').some(selector => /\b(btn|button)\b|input\[type=["']?submit/.test(selector)))
+    .forEach(rule => {
+      const value = rule.declarations['background-color'] || rule.declarations['background'];
+      const color = value && toBrandColor(resolveVariables(value, variables));
+      if (color) counts.set(color, (counts.get(color) || 0) + 1);
+    });
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([color]) => color);
+
+  const primary = named(PRIMARY_VARIABLE) || ranked[0];
+  const secondary = named(SECONDARY_VARIABLE) || ranked.find(color => color !== primary);
+  return [primary, secondary];
+}
+
+// var(--name, fallback) replaced by the custom property's value, nested references included
+function resolveVariables(value: string, variables: Record<string, string>, depth = 0): string {
+  if (depth > 5 || !value.includes('var(')) return value;
+
+  const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/g, (match, name, fallback) =>
+    variables[name.toLowerCase()] ?? fallback ?? match);
+  return resolveVariables(resolved, variables, depth + 1);
+}
+
+function resolveAll(style: Record<string, string>, variables: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(style).map(([property, value]) => [property, resolveVariables(value, variables)]));
+}
+
+// The first color of a color or background value, hex unless it's translucent
+function toColor(value?: string): string | undefined {
+  const token = value?.replace(/url\([^)]*\)/g, '').match(/#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|\b[a-z]+\b/gi)?.find(candidate => parseColor(candidate));
+  const color = token && parseColor(token);
+  return color && color.a > 0 ? formatColor(color) : undefined;
+}
+
+function toBrandColor(value: string): string | undefined {
+  const color = toColor(value);
+  return color && getSaturation(parseColor(color)!) >= MIN_SATURATION ? color : undefined;
+}
+
+function formatColor({ r, g, b, a }: Rgba): string {
+  const hex = [r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+  return a < 1 ? `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${a})` : `#${hex}`;
+}
+
+function getSaturation({ r, g, b }: Rgba): number {
+  return (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+}
+
+// Size and family list of a font shorthand, e.g. "italic 700 16px/1.5 Inter, sans-serif"
+function parseFont(font?: string): { size?: string; family?: string } {
+  const match = font?.match(/(\d[\d.]*(?:px|rem|em|pt|%))(?:\/[\w.%]+)?\s+(.+)$/);
+  return match ? { size: match[1], family: match[2] } : {};
+}
+
+function cleanFamily(family: string): string {
+  return family.split(',').map(name => name.trim()).filter(Boolean).join(', ');
+}
+
+// A length in px, rem or em as px, the first one of shorthands like border-radius. Percentages
+// only count where they're relative to a font size
+function toPixels(value: string | undefined, rootSize: number, percentOf?: number): string | undefined {
+  const match = value?.trim().match(/^(\d*\.?\d+)(px|rem|em|%)/);
+  if (!match || (match[2] === '%' && !percentOf)) return undefined;
+
+  const number = parseFloat(match[1]);
+  const pixels = match[2] === 'px' ? number : match[2] === '%' ? number * percentOf! / 100 : number * rootSize;
+  return `${Math.round(pixels * 100) / 100}px`;
+}
@@ -0,0 +1,297 @@
+import type { WebsiteData } from '../joomlaConverter';
+import type { LayoutAssets } from '../layoutSchema';
+import type { MappingRule, RuleMatch } from '../mappingRules';
+
+export interface Link {
+  text: string;
+  href: string;
+}
+
+export interface FormInput {
+  type: string;
+  name: string;
+  placeholder: string;
+  required: boolean;
+}
+
+interface ContentBase {
+  // Source DOM node, so later passes can look back at classes and structure
+  element?: Element;
+  visibility?: string;
+  textAlign?: string;
+}
+
+export interface HeadingContent extends ContentBase {
+  type: 'heading';
+  // Sanitized inline HTML, see richText.ts
+  content: string;
+  tag: string;
+  level: number;
+}
+
+export interface TextContent extends ContentBase {
+  type: 'text';
+  // Sanitized inline HTML, see richText.ts
+  content: string;
+  align?: string;
+  // First node of a run of loose text, whose element is the container the run sits in
+  start?: Node;
+}
+
+export interface ImageContent extends ContentBase {
+  type: 'image';
+  src: string;
+  alt: string;
+  width: string | null;
+  height: string | null;
+}
+
+export interface ListContent extends ContentBase {
+  type: 'list';
+  items: string[];
+  ordered: boolean;
+}
+
+export interface ButtonContent extends ContentBase {
+  type: 'button';
+  content: string;
+  href: string;
+  style: string;
+}
+
+export interface FormContent extends ContentBase {
+  type: 'form';
+  action: string;
+  method: string;
+  inputs: FormInput[];
+}
+
+export interface TableContent extends ContentBase {
+  type: 'table';
+  headers: string[];
+  rows: string[][];
+}
+
+export interface MediaContent extends ContentBase {
+  type: 'video' | 'audio' | 'iframe';
+  src: string;
+  width: string | null;
+  height: string | null;
+}
+
+export interface NavContent extends ContentBase {
+  type: 'nav';
+  links: Link[];
+}
+
+export interface HtmlContent extends ContentBase {
+  type: 'html';
+  content: string;
+}
+
+// A ready-made YOOtheme element, e.g. from a mapping rule, emitted as-is
+export interface ElementContent extends ContentBase {
+  type: 'element';
+  elementType: string;
+  props: Record<string, unknown>;
+  ruleId?: string;
+}
+
+export type WidgetType = 'slideshow' | 'slider' | 'accordion' | 'switcher' | 'grid';
+
+// One slide, panel, tab or grid item of a widget
+export interface WidgetItem {
+  title: string;
+  // Byline such as a date, job title or category
+  meta?: string;
+  // Sanitized inline HTML
+  content: string;
+  image?: string;
+  imageAlt?: string;
+  link?: string;
+  linkText?: string;
+}
+
+// A carousel, accordion, tabs or repeated items, emitted as a YOOtheme element with one *_item child per item
+export interface WidgetContent extends ContentBase {
+  type: 'widget';
+  widgetType: WidgetType;
+  items: WidgetItem[];
+  props?: Record<string, unknown>;
+}
+
+// A grid nested inside a column, YOOtheme allows one level of nesting
+export interface RowContent extends ContentBase {
+  type: 'row';
+  row: RowNode;
+}
+
+export type ContentNode =
+  | HeadingContent
+  | TextContent
+  | ImageContent
+  | ListContent
+  | ButtonContent
+  | FormContent
+  | TableContent
+  | MediaContent
+  | NavContent
+  | HtmlContent
+  | ElementContent
+  | WidgetContent
+  | RowContent;
+
+export const WIDTH_BREAKPOINTS = ['default', 'small', 'medium', 'large', 'xlarge'] as const;
+
+export type WidthBreakpoint = typeof WIDTH_BREAKPOINTS[number];
+
+// Column widths per YOOtheme breakpoint, each applies from its breakpoint up
+export type ColumnWidths = Partial<Record<WidthBreakpoint, string>>;
+
+export interface ColumnNode {
+  // Width at the widest breakpoint, the one the builder shows first
+  width: string;
+  widths?: ColumnWidths;
+  children: ContentNode[];
+  element?: Element;
+  // DOM nodes a column was built from when it isn't a single element, e.g. a run of loose blocks
+  sources?: Element[];
+}
+
+export interface RowNode {
+  columns: ColumnNode[];
+  gap?: string;
+}
+
+export type SectionRole = 'header' | 'content' | 'footer';
+
+// Read from inline styles, stylesheet rules and background videos
+export interface SectionBackground {
+  image?: string;
+  // YOOtheme position such as "top-center"
+  imagePosition?: string;
+  imageSize?: string;
+  video?: string;
+  color?: string;
+  // Color laid over the image or video, e.g. from a gradient or an overlay element
+  overlay?: string;
+  // Light text on a dark background
+  inverse?: boolean;
+}
+
+export interface SectionNode {
+  role: SectionRole;
+  // DOM nodes the section was built from, several once grouped
+  elements: Element[];
+  rows: RowNode[];
+  // Whether this section starts a new visual section or continues the previous one
+  visualBreak?: boolean;
+  style: string;
+  padding: string;
+  margin?: string;
+  verticalAlign: string;
+  visibility?: string;
+  background?: SectionBackground;
+}
+
+export interface GridInfo {
+  columns: Element[];
+  gap?: string;
+}
+
+// Reads a CSS framework's utility classes, the getters return null when no class applies
+export interface FrameworkDetector {
+  id: string;
+  name: string;
+  cardSelector?: string;
+  // Grid classes no other framework uses, a single element carrying one is enough to detect the framework
+  gridClasses?: RegExp;
+  // Number of elements carrying classes distinctive for the framework
+  detect(doc: Document): number;
+  getGrid(element: Element): GridInfo | null;
+  // Empty when the column's classes don't size it
+  getColumnWidths(column: Element, grid: Element): ColumnWidths;
+  getSectionStyle(element: Element): string | null;
+  getSectionPadding(element: Element): string | null;
+  getVisibility(element: Element): string | null;
+  getTextAlign(element: Element): string | null;
+  getButtonStyle(element: Element): string | null;
+  getCardStyle(element: Element): string | null;
+}
+
+export interface BuilderColumn {
+  elements: Element[];
+  // Empty when the builder leaves columns to share the row equally
+  widths: ColumnWidths;
+}
+
+export interface BuilderRow {
+  columns: BuilderColumn[];
+  gap?: string;
+}
+
+export interface BuilderSection {
+  elements: Element[];
+  rows: BuilderRow[];
+}
+
+// Reads the section/row/column structure a WordPress page builder stores in its markup
+export interface PageBuilderAdapter {
+  id: string;
+  name: string;
+  detect(doc: Document): boolean;
+  // Top-level sections in document order
+  readSections(doc: Document): BuilderSection[];
+  // A row nested inside a column, e.g. an inner section
+  readNestedRow?(element: Element): BuilderRow | null;
+}
+
+export interface Widget {
+  type: WidgetType;
+  items: WidgetItem[];
+  // DOM nodes the widget replaces in document order, e.g. a tab list and its panes
+  elements: Element[];
+}
+
+// Reads a carousel, accordion or tabs component of a widget library
+export interface WidgetDetector {
+  id: string;
+  name: string;
+  selector: string;
+  // Null when the matched element isn't a complete widget
+  read(element: Element): Widget | null;
+}
+
+export interface ConversionOptions {
+  rules?: MappingRule[];
+  // Width in pixels images are picked for from srcset candidates, defaults to DEFAULT_IMAGE_WIDTH
+  imageWidth?: number;
+}
+
+export interface ConversionReport {
+  framework: { id: string; name: string } | null;
+  builder: { id: string; name: string } | null;
+  ruleMatches: RuleMatch[];
+}
+
+export interface PageTree {
+  source: WebsiteData;
+  document: Document;
+  options: ConversionOptions;
+  sections: SectionNode[];
+  assets: LayoutAssets;
+  framework?: FrameworkDetector;
+  // Findings passes want to surface next to the layout
+  report: ConversionReport;
+}
+
+export const PIPELINE_STAGES = ['classify', 'group', 'simplify', 'style'] as const;
+
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export interface PipelinePass {
+  name: string;
+  stage: PipelineStage;
+  description?: string;
+  run(tree: PageTree): void;
+}
@@ -0,0 +1,142 @@
+// Resolves the page's image, media and link URLs in place, so every reader further down sees
+// absolute URLs and the real image behind lazy-loading placeholders
+
+// Target image width when the options don't set one, wide enough for a full-width section
+export const DEFAULT_IMAGE_WIDTH = 1200;
+
+// Where lazy-loading libraries keep the real image until it scrolls into view
+const LAZY_SRC = ['data-src', 'data-lazy-src', 'data-original', 'data-lazy'];
+const LAZY_SRCSET = ['data-srcset', 'data-lazy-srcset'];
+
+// Tiny inline images and blank files lazy-loading puts in src until the real one loads
+const PLACEHOLDER = /^data:image\/(gif|svg\+xml|png);|\/(blank|spacer|pixel|placeholder|lazy|transparent|empty)[\w-]*\.(gif|png|svg)$/i;
+
+// Formats an imported image can be, plainest first
+const SOURCE_TYPES = ['', 'image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif'];
+
+interface SrcsetCandidate {
+  url: string;
+  width?: number;
+  density: number;
+}
+
+// Makes the document's URLs absolute against its <base>, picking the best image source on the way
+export function normalizeUrls(doc: Document, imageWidth = DEFAULT_IMAGE_WIDTH): void {
+  doc.querySelectorAll('img').forEach(img => {
+    const src = readImageSource(img, imageWidth);
+    if (src) {
+      img.setAttribute('src', src);
+    }
+  });
+
+  doc.querySelectorAll('iframe, video, audio, source').forEach(element => {
+    const current = element.getAttribute('src');
+    const src = current && current !== 'about:blank' ? current : getLazySource(element);
+    if (src) {
+      element.setAttribute('src', resolveUrl(src, element.baseURI));
+    }
+  });
+
+  doc.querySelectorAll('video[poster]').forEach(video => {
+    video.setAttribute('poster', resolveUrl(video.getAttribute('poster')!, video.baseURI));
+  });
+
+  doc.querySelectorAll('a[href]').forEach(link => {
+    link.setAttribute('href', resolveUrl(link.getAttribute('href')!, link.baseURI));
+  });
+}
+
+// Absolute URL of a reference, fragments and data URIs are kept as they are. Files of a local
+// site become root-relative, a file:// URL means nothing once the layout is imported
+export function resolveUrl(url: string, base: string): string {
+  const value = url.trim();
+  if (!value || value.startsWith('#') || value.startsWith('data:')) return value;
+
+  try {
+    const resolved = new URL(value, base);
+    return resolved.protocol === 'file:' ? resolved.pathname + resolved.search + resolved.hash : resolved.href;
+  } catch {
+    return value;
+  }
+}
+
+// The best srcset candidate of the image or its <picture>, then a lazy-loaded or plain src,
+// then the image of a <noscript> fallback
+function readImageSource(img: Element, imageWidth: number): string | null {
+  // Images shown smaller than the target don't need more than their own width
+  const displayWidth = parseInt(img.getAttribute('width') || '') || imageWidth;
+  const target = Math.min(displayWidth, imageWidth);
+  const srcset = [...getPictureSources(img), img].map(getSrcset).find(Boolean);
+  const src = img.getAttribute('src')?.trim();
+
+  const best = (srcset && pickCandidate(parseSrcset(srcset), displayWidth, target)) ||
+    getLazySource(img) ||
+    (src && !PLACEHOLDER.test(src) ? src : null) ||
+    getNoscriptSource(img, imageWidth);
+
+  return best ? resolveUrl(best, img.baseURI) : null;
+}
+
+// Sources of the image's <picture> for any screen and a format worth keeping, plainest format first
+function getPictureSources(img: Element): Element[] {
+  const picture = img.parentElement?.tagName.toLowerCase() === 'picture' ? img.parentElement : null;
+  if (!picture) return [];
+
+  return Array.from(picture.querySelectorAll(':scope > source'))
+    .filter(source => !source.getAttribute('media') && SOURCE_TYPES.includes(source.getAttribute('type') || ''))
+    .sort((a, b) => SOURCE_TYPES.indexOf(a.getAttribute('type') || '') - SOURCE_TYPES.indexOf(b.getAttribute('type') || ''));
+}
+
+function getSrcset(element: Element): string | null {
+  return [...LAZY_SRCSET, 'srcset'].map(name => element.getAttribute(name)).find(value => value?.trim()) || null;
+}
+
+function getLazySource(element: Element): string | null {
+  return LAZY_SRC.map(name => element.getAttribute(name)).find(value => value?.trim()) || null;
+}
+
+// Lazy-loading scripts often leave the original <img> in a <noscript> next to the placeholder
+function getNoscriptSource(img: Element, imageWidth: number): string | null {
+  const noscript = [img.nextElementSibling, img.parentElement?.querySelector(':scope > noscript')]
+    .find(el => el?.tagName.toLowerCase() === 'noscript');
+  if (!noscript) return null;
+
+  // Depending on whether scripting was on while parsing, its content is elements or plain text
+  const fallback = noscript.querySelector('img') ||
+    new DOMParser().parseFromString(noscript.textContent || '', 'text/html').querySelector('img');
+  return fallback ? readImageSource(fallback, imageWidth) : null;
+}
+
+// "a.jpg 480w, b.jpg 2x" into candidates, commas inside a URL such as a CDN's transform options are kept
+function parseSrcset(srcset: string): SrcsetCandidate[] {
+  const tokens = srcset.replace(/(\d[wx]),/g, '$1, ').trim().split(/\s+/).filter(Boolean);
+  const candidates: SrcsetCandidate[] = [];
+
+  while (tokens.length > 0) {
+    // A URL ending in a comma has no descriptor, otherwise it runs up to the next comma
+    const url = tokens.shift()!;
+    let descriptor = '';
+    while (!url.endsWith(',') && tokens.length > 0 && !descriptor.endsWith(',')) {
+      descriptor += tokens.shift();
+    }
+
+    const width = descriptor.match(/^(\d+)w,?$/)?.[1];
+    const density = descriptor.match(/^([\d.]+)x,?$/)?.[1];
+    candidates.push({
+      url: url.replace(/,$/, ''),
+      width: width ? parseInt(width) : undefined,
+      density: density ? parseFloat(density) : 1
+    });
+  }
+
+  return candidates;
+}
+
+// The smallest candidate at least as wide as the target, the widest when none is. Density
+// descriptors scale the width the image is shown at
+function pickCandidate(candidates: SrcsetCandidate[], displayWidth: number, target: number): string | null {
+  const sized = candidates.map(candidate => ({ url: candidate.url, width: candidate.width ?? candidate.density * displayWidth }));
+  const wide = sized.filter(candidate => candidate.width >= target).sort((a, b) => a.width - b.width);
+
+  return (wide[0] || sized.sort((a, b) => b.width - a.width)[0])?.url || null;
+}
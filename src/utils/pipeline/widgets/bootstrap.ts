@@ -0,0 +1,78 @@
+import { findOwn } from '../builders/utils';
+import type { WidgetDetector } from '../types';
+import { readItem } from './utils';
+
+const TAB_LIST = '.nav-tabs, .nav-pills, [role="tablist"]';
+const TAB = '[data-bs-toggle="tab"], [data-bs-toggle="pill"], [data-toggle="tab"], [data-toggle="pill"], [role="tab"], .nav-link';
+
+export const bootstrapCarouselDetector: WidgetDetector = {
+  id: 'bootstrap-carousel',
+  name: 'Bootstrap carousel',
+  selector: '.carousel',
+
+  read(element) {
+    const slides = findOwn(element, '.carousel-item', '.carousel');
+    return slides.length > 0
+      ? { type: 'slideshow', items: slides.map(slide => readItem(slide)), elements: [element] }
+      : null;
+  }
+};
+
+// Collapse panels in an .accordion, Bootstrap 5 accordion items or Bootstrap 4 cards
+export const bootstrapAccordionDetector: WidgetDetector = {
+  id: 'bootstrap-accordion',
+  name: 'Bootstrap accordion',
+  selector: '.accordion',
+
+  read(element) {
+    const panels = findOwn(element, '.accordion-item, .card', '.accordion');
+    if (panels.length === 0) return null;
+
+    return {
+      type: 'accordion',
+      items: panels.map(panel => readItem(
+        panel,
+        panel.querySelector('.accordion-header, .card-header, [data-bs-toggle="collapse"], [data-toggle="collapse"]')
+      )),
+      elements: [element]
+    };
+  }
+};
+
+// Tab panes take their titles from the tab list in front of them
+export const bootstrapTabsDetector: WidgetDetector = {
+  id: 'bootstrap-tabs',
+  name: 'Bootstrap tabs',
+  selector: '.tab-content',
+
+  read(element) {
+    const panes = findOwn(element, '.tab-pane', '.tab-content');
+    if (panes.length === 0) return null;
+
+    const tabList = findTabList(element);
+    const tabs = tabList ? Array.from(tabList.querySelectorAll(TAB)) : [];
+
+    return {
+      type: 'switcher',
+      items: panes.map((pane, index) => {
+        const tab = tabs.find(t => getTabTarget(t) === pane.id) || tabs[index];
+        const item = readItem(pane, tab ? null : undefined);
+        return tab ? { ...item, title: tab.textContent?.trim() || '' } : item;
+      }),
+      elements: tabList ? [tabList, element] : [element]
+    };
+  }
+};
+
+function findTabList(panes: Element): Element | null {
+  for (let sibling = panes.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    const tabList = sibling.matches(TAB_LIST) ? sibling : sibling.querySelector(TAB_LIST);
+    if (tabList) return tabList;
+  }
+  return null;
+}
+
+function getTabTarget(tab: Element): string {
+  const target = tab.getAttribute('data-bs-target') || tab.getAttribute('data-target') || tab.getAttribute('href') || '';
+  return target.startsWith('#') ? target.slice(1) : tab.getAttribute('aria-controls') || '';
+}
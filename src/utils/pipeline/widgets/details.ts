@@ -0,0 +1,25 @@
+import type { WidgetDetector } from '../types';
+import { readItem } from './utils';
+
+// A run of consecutive <details> elements is one accordion
+export const detailsDetector: WidgetDetector = {
+  id: 'details',
+  name: 'Details',
+  selector: 'details',
+
+  read(element) {
+    // The run is read from its first element
+    if (element.previousElementSibling?.matches('details')) return null;
+
+    const run = [element];
+    for (let next = element.nextElementSibling; next?.matches('details'); next = next.nextElementSibling) {
+      run.push(next);
+    }
+
+    return {
+      type: 'accordion',
+      items: run.map(details => readItem(details, details.querySelector(':scope > summary'))),
+      elements: run
+    };
+  }
+};
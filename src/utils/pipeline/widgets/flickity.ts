@@ -0,0 +1,21 @@
+import type { WidgetDetector } from '../types';
+import { readItem, readOptions, toCarouselType } from './utils';
+
+export const flickityDetector: WidgetDetector = {
+  id: 'flickity',
+  name: 'Flickity',
+  selector: '.flickity-enabled, [data-flickity], .js-flickity',
+
+  read(element) {
+    // Flickity moves the cells into a slider and adds buttons and dots next to it once it runs
+    const slider = element.querySelector(':scope > .flickity-viewport > .flickity-slider');
+    const cells = Array.from((slider || element).children);
+    if (cells.length === 0) return null;
+
+    // Grouped cells move together, so several are in view at once
+    const groupCells = !!readOptions(element, 'data-flickity').groupCells;
+    const visible = groupCells ? cells.length : cells.filter(cell => cell.classList.contains('is-selected')).length;
+
+    return { type: toCarouselType(visible), items: cells.map(cell => readItem(cell)), elements: [element] };
+  }
+};
@@ -0,0 +1,31 @@
+import type { WidgetDetector } from '../types';
+import { bootstrapAccordionDetector, bootstrapCarouselDetector, bootstrapTabsDetector } from './bootstrap';
+import { detailsDetector } from './details';
+import { flickityDetector } from './flickity';
+import { owlDetector } from './owl';
+import { slickDetector } from './slick';
+import { swiperDetector } from './swiper';
+
+export {
+  bootstrapAccordionDetector,
+  bootstrapCarouselDetector,
+  bootstrapTabsDetector,
+  detailsDetector,
+  flickityDetector,
+  owlDetector,
+  slickDetector,
+  swiperDetector
+};
+
+// When an element matches several detectors the first wins, slider libraries come before
+// Bootstrap because their markup often carries a plain .carousel class too
+export const WIDGET_DETECTORS: WidgetDetector[] = [
+  swiperDetector,
+  slickDetector,
+  owlDetector,
+  flickityDetector,
+  bootstrapCarouselDetector,
+  bootstrapAccordionDetector,
+  bootstrapTabsDetector,
+  detailsDetector
+];
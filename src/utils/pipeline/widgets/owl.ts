@@ -0,0 +1,25 @@
+import { findOwn } from '../builders/utils';
+import type { WidgetDetector } from '../types';
+import { readItem, toCarouselType } from './utils';
+
+const CONTAINER = '.owl-carousel';
+
+export const owlDetector: WidgetDetector = {
+  id: 'owl',
+  name: 'Owl Carousel',
+  selector: CONTAINER,
+
+  read(element) {
+    // Before Owl initializes, its items are the plain children, loop mode clones items at both ends
+    const rendered = findOwn(element, '.owl-item', CONTAINER);
+    const items = rendered.length > 0
+      ? rendered.filter(item => !item.classList.contains('cloned'))
+      : Array.from(element.children);
+    if (items.length === 0) return null;
+
+    const visible = parseInt(element.getAttribute('data-items') || '') ||
+      rendered.filter(item => item.classList.contains('active')).length;
+
+    return { type: toCarouselType(visible), items: items.map(item => readItem(item)), elements: [element] };
+  }
+};
@@ -0,0 +1,25 @@
+import { findOwn } from '../builders/utils';
+import type { WidgetDetector } from '../types';
+import { readItem, readOptions, toCarouselType } from './utils';
+
+const CONTAINER = '.slick-slider, [data-slick]';
+
+export const slickDetector: WidgetDetector = {
+  id: 'slick',
+  name: 'Slick',
+  selector: CONTAINER,
+
+  read(element) {
+    // Before Slick initializes, its slides are the plain children
+    const rendered = findOwn(element, '.slick-slide', CONTAINER);
+    const slides = rendered.length > 0
+      ? rendered.filter(slide => !slide.classList.contains('slick-cloned'))
+      : Array.from(element.children);
+    if (slides.length === 0) return null;
+
+    const slidesToShow = Number(readOptions(element, 'data-slick').slidesToShow) || 0;
+    const visible = slidesToShow || rendered.filter(slide => slide.classList.contains('slick-active')).length;
+
+    return { type: toCarouselType(visible), items: slides.map(slide => readItem(slide)), elements: [element] };
+  }
+};
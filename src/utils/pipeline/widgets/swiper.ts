@@ -0,0 +1,24 @@
+import { findOwn } from '../builders/utils';
+import type { WidgetDetector } from '../types';
+import { readItem, toCarouselType } from './utils';
+
+const CONTAINER = '.swiper, .swiper-container, swiper-container';
+
+export const swiperDetector: WidgetDetector = {
+  id: 'swiper',
+  name: 'Swiper',
+  selector: CONTAINER,
+
+  read(element) {
+    // Loop mode duplicates slides at both ends
+    const slides = findOwn(element, '.swiper-slide, swiper-slide', CONTAINER)
+      .filter(slide => !slide.classList.contains('swiper-slide-duplicate'));
+    if (slides.length === 0) return null;
+
+    // Set on the web component, otherwise only visible slides are marked when Swiper tracks them
+    const perView = parseInt(element.getAttribute('slides-per-view') || element.getAttribute('data-slides-per-view') || '');
+    const visible = perView || slides.filter(slide => slide.classList.contains('swiper-slide-visible')).length;
+
+    return { type: toCarouselType(visible), items: slides.map(slide => readItem(slide)), elements: [element] };
+  }
+};
@@ -0,0 +1,70 @@
+import { resolveHref, toInlineHtml } from '../richText';
+import type { WidgetItem, WidgetType } from '../types';
+import { resolveUrl } from '../urls';
+
+const HEADINGS = 'h1, h2, h3, h4, h5, h6';
+
+// Bylines next to the title, e.g. a post's date or a team member's role
+const META = 'time, .meta, .date, .subtitle, .position, .role, .job-title, .author, .category, .entry-meta, .post-meta';
+
+const BUTTON_LINK = 'a[href][class*="btn"], a[href][class*="button"]';
+
+// Title, meta, text, image and link of a slide, panel, pane or grid item. The title is the first
+// heading unless given, null means the item has none of its own, e.g. a tab pane titled by its tab
+export function readItem(element: Element, title?: Element | null): WidgetItem {
+  const heading = title === undefined ? element.querySelector(HEADINGS) : title;
+  const image = element.querySelector('img');
+  // The title's or image's link or a button, links inside the text stay part of it
+  const imageLink = image?.closest('a[href]');
+  const link = heading?.querySelector('a[href]') || (element.contains(imageLink) ? imageLink : null) || element.querySelector(BUTTON_LINK);
+  const href = link && resolveHref(link);
+  const linkText = link?.textContent?.trim() || '';
+  const meta = Array.from(element.querySelectorAll(META)).find(el => !heading?.contains(el) && !el.contains(heading));
+  const backgroundImage = image ? null : getBackgroundImage(element);
+
+  return {
+    title: heading?.textContent?.trim() || '',
+    ...(meta && { meta: meta.textContent?.trim() || '' }),
+    content: toInlineHtml(Array.from(withoutElements(element, [heading, meta, image, link]).childNodes)),
+    ...(image && { image: image.getAttribute('src') || '', imageAlt: image.getAttribute('alt') || '' }),
+    ...(backgroundImage && { image: backgroundImage, imageAlt: '' }),
+    ...(href && { link: href, linkText })
+  };
+}
+
+// Several slides in view make a slider, one at a time a slideshow
+export function toCarouselType(visible: number): WidgetType {
+  return visible > 1 ? 'slider' : 'slideshow';
+}
+
+// Options libraries read from a data attribute as JSON
+export function readOptions(element: Element, attribute: string): Record<string, unknown> {
+  try {
+    return JSON.parse(element.getAttribute(attribute) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function getBackgroundImage(element: Element): string | null {
+  const styled = [element, ...Array.from(element.querySelectorAll('[style*="background"]'))];
+  for (const el of styled) {
+    const match = el.getAttribute('style')?.match(/url\(['"]?([^'")]+)['"]?\)/);
+    if (match) return resolveUrl(match[1], el.baseURI);
+  }
+  return null;
+}
+
+// A copy of the element without the given descendants, which are read into fields of their own
+function withoutElements(element: Element, excluded: (Element | null | undefined)[]): Element {
+  const clone = element.cloneNode(true) as Element;
+  const originals = Array.from(element.querySelectorAll('*'));
+  const copies = Array.from(clone.querySelectorAll('*'));
+
+  excluded.forEach(el => {
+    const index = el ? originals.indexOf(el) : -1;
+    if (index !== -1) copies[index].remove();
+  });
+
+  return clone;
+}
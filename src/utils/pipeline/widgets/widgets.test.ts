@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { convertSections, findAll } from '../testing';
+
+// The first multi-item element of the page with its items' props
+const convertWidget = (html: string): { type: string; items: Record<string, unknown>[] } => {
+  const [widget] = findAll(convertSections(html), 'column').flatMap(column => column.children)
+    .filter(element => element.children.some(child => child.type === `${element.type}_item`));
+  return { type: widget?.type, items: widget?.children.map(item => item.props) || [] };
+};
+
+describe('swiperDetector', () => {
+  it('maps several visible slides to a slider and skips loop duplicates', () => {
+    const widget = convertWidget(`<section><div class="swiper"><div class="swiper-wrapper">
+<div class="swiper-slide swiper-slide-visible"><img src="/a.jpg" alt="A"><h3>First slide</h3><p>First slide text.</p></div>
+<div class="swiper-slide swiper-slide-visible"><img src="/b.jpg" alt="B"><h3>Second slide</h3><p>Second slide text.</p></div>
+<div class="swiper-slide swiper-slide-duplicate"><h3>First slide</h3></div>
+</div></div></section>`);
+
+    expect(widget.type).toBe('slider');
+    expect(widget.items).toEqual([
+      { title: 'First slide', content: 'First slide text.', image: 'https://example.com/a.jpg', image_alt: 'A' },
+      { title: 'Second slide', content: 'Second slide text.', image: 'https://example.com/b.jpg', image_alt: 'B' }
+    ]);
+  });
+});
+
+describe('bootstrapCarouselDetector', () => {
+  it('maps carousel items to a slideshow', () => {
+    const widget = convertWidget(`<section><div class="carousel slide"><div class="carousel-inner">
+<div class="carousel-item active"><img src="/1.jpg" alt="One"></div>
+<div class="carousel-item"><img src="/2.jpg" alt="Two"></div>
+</div></div></section>`);
+
+    expect(widget.type).toBe('slideshow');
+    expect(widget.items.map(item => item.image)).toEqual(['https://example.com/1.jpg', 'https://example.com/2.jpg']);
+  });
+});
+
+describe('bootstrapAccordionDetector', () => {
+  it('takes item titles from the accordion headers', () => {
+    const widget = convertWidget(`<section><div class="accordion">
+<div class="accordion-item"><h2 class="accordion-header"><button class="accordion-button">First question</button></h2><div class="accordion-collapse"><div class="accordion-body">First answer.</div></div></div>
+<div class="accordion-item"><h2 class="accordion-header"><button class="accordion-button">Second question</button></h2><div class="accordion-collapse"><div class="accordion-body">Second answer.</div></div></div>
+</div></section>`);
+
+    expect(widget.type).toBe('accordion');
+    expect(widget.items).toEqual([
+      { title: 'First question', content: 'First answer.' },
+      { title: 'Second question', content: 'Second answer.' }
+    ]);
+  });
+});
+
+describe('bootstrapTabsDetector', () => {
+  it('titles each pane after the tab that targets it', () => {
+    const widget = convertWidget(`<section>
+<ul class="nav nav-tabs" role="tablist">
+<li><button class="nav-link" data-bs-toggle="tab" data-bs-target="#second">Second tab</button></li>
+<li><button class="nav-link" data-bs-toggle="tab" data-bs-target="#first">First tab</button></li>
+</ul>
+<div class="tab-content">
+<div class="tab-pane" id="first"><p>First pane text.</p></div>
+<div class="tab-pane" id="second"><p>Second pane text.</p></div>
+</div></section>`);
+
+    expect(widget.type).toBe('switcher');
+    expect(widget.items).toEqual([
+      { title: 'First tab', content: 'First pane text.' },
+      { title: 'Second tab', content: 'Second pane text.' }
+    ]);
+  });
+});
+
+describe('detailsDetector', () => {
+  it('turns a run of details elements into one accordion', () => {
+    const widget = convertWidget(`<section>
+<details><summary>Question one</summary><p>Answer one.</p></details>
+<details><summary>Question two</summary><p>Answer two.</p></details>
+</section>`);
+
+    expect(widget.type).toBe('accordion');
+    expect(widget.items.map(item => item.title)).toEqual(['Question one', 'Question two']);
+  });
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { crawlSettingsSchema, DEFAULT_CRAWL_SETTINGS, type CrawlSettings } from './crawlSettings';
+import { mappingRuleSetSchema, type MappingRule } from './mappingRules';
+import { DEFAULT_IMAGE_WIDTH } from './pipeline/urls';
+
+export const imageWidthSchema = z
+  .number({ invalid_type_error: 'Enter a width in pixels' })
+  .int('Enter a whole number of pixels')
+  .min(100, 'Use at least 100px')
+  .max(4000, 'Use at most 4000px');
+
+export interface Project {
+  id: string;
+  crawlSettings: CrawlSettings;
+  rules: MappingRule[];
+  // Width in pixels images are picked for from srcset candidates
+  imageWidth: number;
+  updatedAt: string;
+}
+
+export class ProjectStore {
+  private static STORAGE_KEY = 'yootheme_projects';
+
+  // Projects are keyed by hostname, so every URL of a site shares its settings
+  static getProjectId(url: string): string {
+    try {
+      return new URL(url).hostname || 'local';
+    } catch {
+      return 'local';
+    }
+  }
+
+  static getForUrl(url: string): Project {
+    const id = this.getProjectId(url);
+    return this.list().find(project => project.id === id) || this.createProject(id);
+  }
+
+  static list(): Project[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '[]');
+      return Array.isArray(stored) ? stored.map(project => this.normalize(project)) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static save(project: Project): void {
+    const projects = this.list().filter(p => p.id !== project.id);
+    projects.push({ ...project, updatedAt: new Date().toISOString() });
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(projects));
+  }
+
+  private static createProject(id: string): Project {
+    return {
+      id,
+      crawlSettings: { ...DEFAULT_CRAWL_SETTINGS },
+      rules: [],
+      imageWidth: DEFAULT_IMAGE_WIDTH,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  // Settings saved by older versions may be missing fields or fail newer validation
+  private static normalize(project: Project): Project {
+    const parsed = crawlSettingsSchema.safeParse({ ...DEFAULT_CRAWL_SETTINGS, ...project.crawlSettings });
+    const rules = mappingRuleSetSchema.safeParse(project.rules || []);
+    const imageWidth = imageWidthSchema.safeParse(project.imageWidth);
+    return {
+      ...this.createProject(project.id),
+      ...project,
+      crawlSettings: parsed.success ? parsed.data : { ...DEFAULT_CRAWL_SETTINGS },
+      rules: rules.success ? rules.data : [],
+      imageWidth: imageWidth.success ? imageWidth.data : DEFAULT_IMAGE_WIDTH
+    };
+  }
+}
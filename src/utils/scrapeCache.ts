@@ -0,0 +1,81 @@
+import type { CrawlSettings } from './crawlSettings';
+import type { WebsiteData } from './joomlaConverter';
+
+export interface CachedScrape {
+  key: string;
+  url: string;
+  providerId: string;
+  settings: CrawlSettings;
+  pages: WebsiteData[];
+  createdAt: string;
+}
+
+export class ScrapeCache {
+  private static DB_NAME = 'yootheme-converter';
+  private static DB_VERSION = 1;
+  private static STORE_NAME = 'scrapes';
+
+  private static db: Promise<IDBDatabase> | null = null;
+
+  static getKey(url: string, providerId: string, settings: CrawlSettings): string {
+    // Sort keys so equal settings always serialize the same way
+    const options = JSON.stringify(settings, Object.keys(settings).sort());
+    return `${providerId}|${url.replace(/\/+$/, '')}|${options}`;
+  }
+
+  static async get(key: string): Promise<CachedScrape | null> {
+    const entry = await this.request<CachedScrape | undefined>('readonly', store => store.get(key));
+    return entry || null;
+  }
+
+  static async put(entry: Omit<CachedScrape, 'key' | 'createdAt'>): Promise<CachedScrape> {
+    const cached: CachedScrape = {
+      ...entry,
+      key: this.getKey(entry.url, entry.providerId, entry.settings),
+      createdAt: new Date().toISOString()
+    };
+    await this.request('readwrite', store => store.put(cached));
+    return cached;
+  }
+
+  static async list(): Promise<CachedScrape[]> {
+    const entries = await this.request<CachedScrape[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  static async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  static async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.STORE_NAME)) {
+            request.result.createObjectStore(this.STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private static async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(this.STORE_NAME, mode).objectStore(this.STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
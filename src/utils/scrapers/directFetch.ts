@@ -0,0 +1,201 @@
+import { DEFAULT_CRAWL_SETTINGS, isInCrawlScope } from '../crawlSettings';
+import type { WebsiteData } from '../joomlaConverter';
+import { LocalSourceService } from '../localSources';
+import { ScraperError, withRetry } from './errors';
+import type { CrawlOptions, ScrapeResult, ScraperProvider, ScraperSettingField, ScraperSettings, ScraperUsage } from './types';
+
+export class DirectFetchProvider implements ScraperProvider {
+  readonly id = 'direct';
+  readonly name = 'Direct Fetch';
+  readonly description = 'Fetches raw HTML through a local CORS proxy. Free and works on VPN or staging sites, but does not render JavaScript.';
+  readonly settingsFields: ScraperSettingField[] = [
+    {
+      key: 'proxyUrl',
+      label: 'Proxy URL',
+      type: 'url',
+      placeholder: 'http://localhost:8080/?url={url}',
+      description: 'The page URL replaces {url}, or is appended URL-encoded when there is no placeholder.',
+      required: true
+    }
+  ];
+
+  private static TIMEOUT = 30000;
+
+  private proxyUrl = '';
+
+  configure(settings: ScraperSettings): void {
+    this.proxyUrl = settings.proxyUrl || '';
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    const result = await this.scrapePage('https://example.com');
+    return result.success;
+  }
+
+  async getUsage(): Promise<ScraperUsage | null> {
+    return null;
+  }
+
+  estimateCredits(): number | null {
+    return null;
+  }
+
+  async scrapePage(url: string, signal?: AbortSignal): Promise<ScrapeResult<WebsiteData>> {
+    if (!this.proxyUrl) {
+      return { success: false, error: 'Proxy URL not configured' };
+    }
+
+    try {
+      const html = await withRetry(() => this.fetchHtml(url, signal), {
+        signal,
+        onRetry: (error, attempt, delay) => console.warn(`Fetching ${url} failed with ${error.code}, retry ${attempt} in ${Math.round(delay)}ms`)
+      });
+
+      return { success: true, data: LocalSourceService.toWebsiteData(html, url) };
+    } catch (error) {
+      console.error('Error fetching page:', error);
+      const scraperError = ScraperError.from(error);
+      return {
+        success: false,
+        error: scraperError.message || 'Failed to connect to proxy',
+        code: scraperError.code
+      };
+    }
+  }
+
+  async crawlSite(url: string, options: CrawlOptions = {}): Promise<ScrapeResult<WebsiteData[]>> {
+    const { settings = DEFAULT_CRAWL_SETTINGS, signal, onProgress } = options;
+    let start: URL;
+    try {
+      start = new URL(url);
+    } catch {
+      return { success: false, error: `Invalid URL: ${url}`, code: 'parse_failure' };
+    }
+
+    const queue = [{ url: start.href, depth: 0 }];
+    const seen = new Set([start.href]);
+    const pages: WebsiteData[] = [];
+
+    const report = (status: 'scraping' | 'completed' | 'cancelled') => onProgress?.({
+      status,
+      discovered: Math.min(seen.size, settings.limit),
+      completed: pages.length,
+      pages: [...pages]
+    });
+
+    report('scraping');
+
+    while (queue.length > 0 && pages.length < settings.limit) {
+      const { url: pageUrl, depth } = queue.shift()!;
+      const result = await this.scrapePage(pageUrl, signal);
+
+      if (signal?.aborted) break;
+
+      if (!result.success) {
+        // Only the start page is mandatory, broken links further down are skipped
+        if (pages.length === 0) return { success: false, error: result.error, code: result.code };
+        continue;
+      }
+
+      // The start page is always crawled, scope rules only filter the pages it leads to
+      if (depth === 0 || isInCrawlScope(pageUrl, settings)) {
+        pages.push(result.data!);
+      }
+
+      if (depth >= settings.maxDepth) continue;
+
+      // Excluded paths are never followed, other out-of-scope pages may still link to included ones
+      const followScope = { ...settings, includePaths: [] };
+
+      this.extractLinks(result.data!.html, pageUrl, start.origin).forEach(link => {
+        if (!seen.has(link) && isInCrawlScope(link, followScope)) {
+          seen.add(link);
+          queue.push({ url: link, depth: depth + 1 });
+        }
+      });
+
+      report('scraping');
+    }
+
+    if (signal?.aborted) {
+      report('cancelled');
+      return { success: false, error: 'Crawl cancelled', code: 'cancelled', data: pages };
+    }
+
+    report('completed');
+    return { success: true, data: pages };
+  }
+
+  async fetchAsset(url: string, signal?: AbortSignal): Promise<ScrapeResult<Blob>> {
+    if (!this.proxyUrl) {
+      return { success: false, error: 'Proxy URL not configured' };
+    }
+
+    try {
+      const blob = await withRetry(() => this.fetchThroughProxy(url, signal, response => response.blob()), { signal });
+      return { success: true, data: blob };
+    } catch (error) {
+      const scraperError = ScraperError.from(error);
+      return {
+        success: false,
+        error: scraperError.message || 'Failed to connect to proxy',
+        code: scraperError.code
+      };
+    }
+  }
+
+  private async fetchHtml(url: string, signal?: AbortSignal): Promise<string> {
+    const html = await this.fetchThroughProxy(url, signal, response => response.text());
+    if (!html.trim()) {
+      throw new ScraperError('empty_content', `${url} returned an empty response`);
+    }
+    return html;
+  }
+
+  // The timeout covers reading the body, which is most of the time for large files
+  private async fetchThroughProxy<T>(url: string, signal: AbortSignal | undefined, read: (response: Response) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), DirectFetchProvider.TIMEOUT);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      const response = await fetch(this.getProxiedUrl(url), { signal: controller.signal });
+      if (!response.ok) {
+        const message = `Proxy responded with ${response.status} ${response.statusText}`;
+        throw new ScraperError(ScraperError.classify(message, response.status), message, response.status);
+      }
+
+      return await read(response);
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new ScraperError('timeout', `Fetching ${url} timed out after ${DirectFetchProvider.TIMEOUT / 1000}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private getProxiedUrl(url: string): string {
+    return this.proxyUrl.includes('{url}')
+      ? this.proxyUrl.replace('{url}', encodeURIComponent(url))
+      : this.proxyUrl + encodeURIComponent(url);
+  }
+
+  private extractLinks(html: string, baseUrl: string, origin: string): string[] {
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(html, 'text/html');
+
+    return Array.from(doc.querySelectorAll('a[href]')).flatMap(link => {
+      try {
+        const url = new URL(link.getAttribute('href') || '', baseUrl);
+        url.hash = '';
+        return url.origin === origin && !/\.(jpe?g|png|gif|svg|webp|pdf|zip)$/i.test(url.pathname) ? [url.href] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
@@ -0,0 +1,97 @@
+export type ScraperErrorCode =
+  | 'auth_failed'
+  | 'rate_limited'
+  | 'quota_exhausted'
+  | 'timeout'
+  | 'blocked_by_robots'
+  | 'dns_failure'
+  | 'parse_failure'
+  | 'empty_content'
+  | 'cancelled'
+  | 'unknown';
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: ScraperError, attempt: number, delay: number) => void;
+}
+
+export class ScraperError extends Error {
+  readonly code: ScraperErrorCode;
+  readonly statusCode?: number;
+
+  constructor(code: ScraperErrorCode, message: string, statusCode?: number) {
+    super(message);
+    this.name = 'ScraperError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+
+  // Only failures that can succeed on a later attempt are retried
+  get transient(): boolean {
+    return this.code === 'rate_limited'
+      || this.code === 'timeout'
+      || (this.code === 'unknown' && !!this.statusCode && this.statusCode >= 500);
+  }
+
+  static from(error: unknown): ScraperError {
+    if (error instanceof ScraperError) return error;
+
+    const message = error instanceof Error ? error.message : String(error || 'Unknown error');
+    const status = (error as { statusCode?: number })?.statusCode;
+    // The Firecrawl SDK rewraps HTTP errors, the real status only survives in the message
+    const statusCode = Number(message.match(/status code:?\s*(\d{3})/i)?.[1]) || status;
+
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return new ScraperError('cancelled', 'Crawl cancelled');
+    }
+
+    return new ScraperError(this.classify(message, statusCode), message, statusCode);
+  }
+
+  static classify(message: string, statusCode?: number): ScraperErrorCode {
+    if (statusCode === 401 || /unauthori[sz]ed|invalid (api )?(key|token)/i.test(message)) return 'auth_failed';
+    if (statusCode === 402 || /insufficient credits|payment required|quota|upgrade your plan/i.test(message)) return 'quota_exhausted';
+    if (statusCode === 429 || /rate limit|too many requests/i.test(message)) return 'rate_limited';
+    if (statusCode === 408 || statusCode === 504 || /time(d)?[ -]?out|ETIMEDOUT/i.test(message)) return 'timeout';
+    if (/robots\.txt|blocked by robots|disallowed by robots/i.test(message)) return 'blocked_by_robots';
+    if (/ENOTFOUND|getaddrinfo|ERR_NAME_NOT_RESOLVED|dns|could not resolve/i.test(message)) return 'dns_failure';
+    if (/JSON|unexpected token|parse/i.test(message)) return 'parse_failure';
+    if (/no pages|empty (content|response)|no content/i.test(message)) return 'empty_content';
+    if (/cancel(l)?ed|aborted/i.test(message)) return 'cancelled';
+    return 'unknown';
+  }
+}
+
+export async function withRetry<T>(action: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelay = 1000, maxDelay = 30000, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await action();
+    } catch (error) {
+      const scraperError = ScraperError.from(error);
+
+      if (!scraperError.transient || attempt >= retries || signal?.aborted) {
+        throw scraperError;
+      }
+
+      // Exponential backoff with jitter so parallel clients don't retry in lockstep
+      const delay = Math.min(maxDelay, baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2);
+      onRetry?.(scraperError, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
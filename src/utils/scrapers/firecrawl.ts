@@ -0,0 +1,291 @@
+import FirecrawlApp, { type CrawlParams, type CrawlScrapeOptions } from '@mendable/firecrawl-js';
+import { DEFAULT_CRAWL_SETTINGS, FALLBACK_TAGS, globToRegex, STYLE_TAGS, type CrawlSettings } from '../crawlSettings';
+import type { WebsiteData } from '../joomlaConverter';
+import { ScraperError, sleep, withRetry } from './errors';
+import type { CrawlOptions, CrawlStatus, ScrapeResult, ScraperProvider, ScraperSettingField, ScraperSettings, ScraperUsage } from './types';
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+}
+
+interface CrawlStartResponse {
+  success: true;
+  id: string;
+}
+
+interface CrawlStatusResponse {
+  success: true;
+  status: CrawlStatus;
+  total: number;
+  completed: number;
+  creditsUsed: number;
+  next?: string;
+  data: WebsiteData[];
+}
+
+interface ScrapeResponse extends WebsiteData {
+  success: true;
+}
+
+interface CreditUsageResponse {
+  success: boolean;
+  data?: {
+    remaining_credits: number;
+  };
+  error?: string;
+}
+
+export class FirecrawlProvider implements ScraperProvider {
+  readonly id = 'firecrawl';
+  readonly name = 'Firecrawl';
+  readonly description = 'Hosted crawling through the Firecrawl API. Renders JavaScript and uses credits per page.';
+  readonly settingsFields: ScraperSettingField[] = [
+    {
+      key: 'apiKey',
+      label: 'Firecrawl API Key',
+      type: 'password',
+      placeholder: 'fc-...',
+      required: true,
+      secret: true
+    }
+  ];
+
+  private static POLL_INTERVAL = 2000;
+  private static API_URL = 'https://api.firecrawl.dev/v1';
+
+  private apiKey = '';
+  private firecrawlApp: FirecrawlApp | null = null;
+  private creditsUsed = 0;
+
+  configure(settings: ScraperSettings): void {
+    if (settings.apiKey !== this.apiKey) {
+      this.apiKey = settings.apiKey || '';
+      this.firecrawlApp = null;
+    }
+  }
+
+  // Reading the credit balance is free, unlike a test crawl
+  async validateCredentials(): Promise<boolean> {
+    if (!this.apiKey) return false;
+
+    try {
+      await this.getRemainingCredits();
+      return true;
+    } catch (error) {
+      console.error('Error testing API key:', error);
+      return false;
+    }
+  }
+
+  async getUsage(): Promise<ScraperUsage | null> {
+    if (!this.apiKey) return null;
+
+    try {
+      return {
+        usedCredits: this.creditsUsed,
+        remainingCredits: await this.getRemainingCredits(),
+        description: 'Credits remaining on this account'
+      };
+    } catch (error) {
+      console.error('Error reading credit usage:', error);
+      return {
+        usedCredits: this.creditsUsed,
+        description: 'Credits used this session'
+      };
+    }
+  }
+
+  // The markdown and html formats crawls request cost one credit per scraped page
+  estimateCredits(settings: CrawlSettings): number | null {
+    return settings.limit;
+  }
+
+  async scrapePage(url: string): Promise<ScrapeResult<WebsiteData>> {
+    if (!this.apiKey) {
+      return { success: false, error: 'API key not found', code: 'auth_failed' };
+    }
+
+    try {
+      const { success, ...page } = await this.request<ScrapeResponse>(
+        () => this.getApp().scrapeUrl(url, this.getScrapeOptions(DEFAULT_CRAWL_SETTINGS))
+      );
+
+      if (!page.html) {
+        throw new ScraperError('empty_content', `${url} returned no content`);
+      }
+
+      this.creditsUsed++;
+      return { success, data: page };
+    } catch (error) {
+      console.error('Error during scraping:', error);
+      return this.toFailure(error);
+    }
+  }
+
+  async crawlSite(url: string, options: CrawlOptions = {}): Promise<ScrapeResult<WebsiteData[]>> {
+    const { settings = DEFAULT_CRAWL_SETTINGS, signal, onProgress, resumeJobId } = options;
+
+    if (!this.apiKey) {
+      return { success: false, error: 'API key not found', code: 'auth_failed' };
+    }
+
+    const pages: WebsiteData[] = [];
+    let jobId = resumeJobId;
+    let received = 0;
+    let discovered = 0;
+    let creditsUsed = 0;
+
+    try {
+      const app = this.getApp();
+
+      if (!jobId) {
+        const response = await this.request<CrawlStartResponse>(
+          () => app.asyncCrawlUrl(url, this.getCrawlParams(settings)),
+          signal
+        );
+        jobId = response.id;
+      }
+
+      onProgress?.({ jobId, status: 'scraping', discovered: 0, completed: 0, pages: [] });
+
+      // Poll the job, fetching only the pages that arrived since the last poll
+      while (!signal?.aborted) {
+        const status = await this.request<CrawlStatusResponse>(
+          () => app.checkCrawlStatus(jobId, false, undefined, received),
+          signal
+        );
+
+        received += status.data.length;
+        discovered = status.total;
+        creditsUsed = status.creditsUsed || creditsUsed;
+        pages.push(...status.data.filter(page => page.html));
+
+        onProgress?.({
+          jobId,
+          status: status.status,
+          discovered: status.total,
+          completed: status.completed,
+          pages: [...pages]
+        });
+
+        if (status.status === 'failed' || status.status === 'cancelled') {
+          throw new ScraperError(status.status === 'cancelled' ? 'cancelled' : 'unknown', `Crawl ${status.status}`);
+        }
+
+        if (status.status === 'completed' && !status.next) {
+          break;
+        }
+
+        if (status.status !== 'completed') {
+          await sleep(FirecrawlProvider.POLL_INTERVAL, signal);
+        }
+      }
+
+      if (signal?.aborted) {
+        await app.cancelCrawl(jobId).catch(error => console.error('Error cancelling crawl:', error));
+        onProgress?.({ jobId, status: 'cancelled', discovered, completed: received, pages: [...pages] });
+        return { success: false, error: 'Crawl cancelled', code: 'cancelled', data: pages };
+      }
+
+      if (pages.length === 0) {
+        throw new ScraperError('empty_content', 'Crawl returned no pages');
+      }
+
+      return { 
+        success: true,
+        data: pages
+      };
+    } catch (error) {
+      console.error('Error during scraping:', error);
+      return this.toFailure(error, pages);
+    } finally {
+      this.creditsUsed += creditsUsed;
+    }
+  }
+
+  // The API only returns page content, files are downloaded from their origin, which has to allow it
+  async fetchAsset(url: string, signal?: AbortSignal): Promise<ScrapeResult<Blob>> {
+    try {
+      const blob = await withRetry(async () => {
+        const response = await fetch(url, { signal });
+        if (!response.ok) {
+          const message = `${url} responded with ${response.status} ${response.statusText}`;
+          throw new ScraperError(ScraperError.classify(message, response.status), message, response.status);
+        }
+        return response.blob();
+      }, { signal });
+
+      return { success: true, data: blob };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  // Runs an SDK call with retries, turning both thrown errors and error responses into ScraperErrors
+  private request<T extends { success: true }>(call: () => Promise<T | ErrorResponse | unknown>, signal?: AbortSignal): Promise<T> {
+    return withRetry(async () => {
+      const response = await call() as T | ErrorResponse;
+      if (!response.success) {
+        throw ScraperError.from(new Error((response as ErrorResponse).error || 'Firecrawl request failed'));
+      }
+      return response as T;
+    }, {
+      signal,
+      onRetry: (error, attempt, delay) => console.warn(`Firecrawl ${error.code}, retry ${attempt} in ${Math.round(delay)}ms`)
+    });
+  }
+
+  private async getRemainingCredits(): Promise<number> {
+    const response = await fetch(`${FirecrawlProvider.API_URL}/team/credit-usage`, {
+      headers: { Authorization: `Bearer ${this.apiKey}` }
+    });
+    const body: CreditUsageResponse = await response.json().catch(() => ({ success: false }));
+
+    if (!response.ok || !body.success || !body.data) {
+      const message = body.error || `Credit usage request failed with status code ${response.status}`;
+      throw new ScraperError(ScraperError.classify(message, response.status), message, response.status);
+    }
+
+    return body.data.remaining_credits;
+  }
+
+  private toFailure<T>(error: unknown, data?: T): ScrapeResult<T> {
+    const scraperError = ScraperError.from(error);
+    return {
+      success: false,
+      error: scraperError.message || 'Failed to connect to Firecrawl API',
+      code: scraperError.code,
+      data
+    };
+  }
+
+  private getCrawlParams(settings: CrawlSettings): CrawlParams {
+    return {
+      limit: settings.limit,
+      maxDiscoveryDepth: settings.maxDepth,
+      includePaths: settings.includePaths.map(globToRegex),
+      excludePaths: settings.excludePaths.map(globToRegex),
+      scrapeOptions: this.getScrapeOptions(settings)
+    };
+  }
+
+  private getScrapeOptions(settings: CrawlSettings): CrawlScrapeOptions {
+    return {
+      formats: ['markdown', 'html'],
+      waitFor: settings.waitFor,
+      onlyMainContent: settings.onlyMainContent,
+      // Settings saved before styles were read may leave them out
+      includeTags: settings.includeTags.length > 0 ? Array.from(new Set([...settings.includeTags, ...STYLE_TAGS])) : [],
+      excludeTags: settings.excludeTags.filter(tag => !STYLE_TAGS.includes(tag) && !FALLBACK_TAGS.includes(tag)),
+      removeBase64Images: false
+    };
+  }
+
+  private getApp(): FirecrawlApp {
+    if (!this.firecrawlApp) {
+      this.firecrawlApp = new FirecrawlApp({ apiKey: this.apiKey });
+    }
+    return this.firecrawlApp;
+  }
+}
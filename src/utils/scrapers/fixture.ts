@@ -0,0 +1,86 @@
+import { DEFAULT_CRAWL_SETTINGS, isInCrawlScope } from '../crawlSettings';
+import type { WebsiteData } from '../joomlaConverter';
+import type { CrawlOptions, ScrapeResult, ScraperProvider, ScraperSettingField, ScraperSettings, ScraperUsage } from './types';
+
+export class FixtureProvider implements ScraperProvider {
+  readonly id = 'fixture';
+  readonly name = 'Fixtures';
+  readonly description = 'Replays previously saved scrape responses. Useful for offline work and repeatable converter runs.';
+  readonly settingsFields: ScraperSettingField[] = [
+    {
+      key: 'fixtures',
+      label: 'Saved Responses (JSON)',
+      type: 'textarea',
+      placeholder: '{ "success": true, "data": [ ... ] }',
+      description: 'A saved Firecrawl crawl response, or an array of pages with html and metadata.sourceURL.',
+      required: true
+    }
+  ];
+
+  private pages: WebsiteData[] = [];
+
+  configure(settings: ScraperSettings): void {
+    this.pages = this.parseFixtures(settings.fixtures || '');
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    return this.pages.length > 0;
+  }
+
+  async getUsage(): Promise<ScraperUsage | null> {
+    return { description: `${this.pages.length} saved pages` };
+  }
+
+  estimateCredits(): number | null {
+    return null;
+  }
+
+  async scrapePage(url: string): Promise<ScrapeResult<WebsiteData>> {
+    const page = this.pages.find(p => this.sameUrl(p.metadata.sourceURL, url));
+    return page
+      ? { success: true, data: page }
+      : { success: false, error: `No saved response for ${url}`, code: 'empty_content' };
+  }
+
+  async crawlSite(url: string, options: CrawlOptions = {}): Promise<ScrapeResult<WebsiteData[]>> {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return { success: false, error: `Invalid URL: ${url}`, code: 'parse_failure' };
+    }
+
+    const { settings = DEFAULT_CRAWL_SETTINGS } = options;
+    const pages = this.pages
+      .filter(p => p.metadata.sourceURL.startsWith(origin) && isInCrawlScope(p.metadata.sourceURL, settings))
+      .slice(0, settings.limit);
+    options.onProgress?.({ status: 'completed', discovered: pages.length, completed: pages.length, pages });
+
+    return pages.length > 0
+      ? { success: true, data: pages }
+      : { success: false, error: `No saved responses for ${origin}`, code: 'empty_content' };
+  }
+
+  async fetchAsset(url: string): Promise<ScrapeResult<Blob>> {
+    return { success: false, error: `Saved responses don't include files such as ${url}`, code: 'empty_content' };
+  }
+
+  private parseFixtures(json: string): WebsiteData[] {
+    if (!json.trim()) return [];
+
+    try {
+      const parsed = JSON.parse(json);
+      const pages = Array.isArray(parsed) ? parsed : parsed?.data;
+      return Array.isArray(pages)
+        ? pages.filter(page => typeof page?.html === 'string' && page?.metadata?.sourceURL)
+        : [];
+    } catch (error) {
+      console.error('Error parsing fixtures:', error);
+      return [];
+    }
+  }
+
+  private sameUrl(a: string, b: string): boolean {
+    return a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,121 @@
+import { DirectFetchProvider } from './directFetch';
+import { FirecrawlProvider } from './firecrawl';
+import { FixtureProvider } from './fixture';
+import { CredentialVault } from '../credentialVault';
+import type { ScraperProvider, ScraperSettings } from './types';
+
+export { CrawlJobStore, type StoredCrawlJob } from './jobs';
+export { ScraperError, withRetry, type ScraperErrorCode } from './errors';
+export type { CrawlOptions, CrawlProgress, CrawlStatus, ScrapeResult, ScraperProvider, ScraperSettingField, ScraperSettings, ScraperUsage } from './types';
+
+export class ScraperRegistry {
+  private static ACTIVE_PROVIDER_KEY = 'scraper_provider';
+  private static SETTINGS_KEY_PREFIX = 'scraper_settings_';
+  private static LEGACY_API_KEY = 'firecrawl_api_key';
+
+  private static providers: ScraperProvider[] = [
+    new FirecrawlProvider(),
+    new DirectFetchProvider(),
+    new FixtureProvider()
+  ];
+
+  static getProviders(): ScraperProvider[] {
+    return this.providers;
+  }
+
+  static getProvider(id: string): ScraperProvider {
+    const provider = this.providers.find(p => p.id === id) || this.providers[0];
+    provider.configure(this.getSettings(provider.id));
+    return provider;
+  }
+
+  static getActiveProviderId(): string {
+    return localStorage.getItem(this.ACTIVE_PROVIDER_KEY) || this.providers[0].id;
+  }
+
+  static getActiveProvider(): ScraperProvider {
+    return this.getProvider(this.getActiveProviderId());
+  }
+
+  static setActiveProvider(id: string): void {
+    localStorage.setItem(this.ACTIVE_PROVIDER_KEY, id);
+  }
+
+  // Secrets are never read from plain storage once the vault holds a key for the provider
+  static getSettings(id: string): ScraperSettings {
+    const settings = this.getStoredSettings(id);
+    const secretField = this.getSecretField(id);
+    const secret = secretField && CredentialVault.getActiveSecret(id);
+
+    return secret ? { ...settings, [secretField]: secret } : settings;
+  }
+
+  static saveSettings(id: string, settings: ScraperSettings): void {
+    const secretField = this.getSecretField(id);
+    const { [secretField]: secret, ...stored } = settings;
+    // Plaintext keys from older versions stay put until they are migrated into the vault
+    const plaintext = secretField && this.getStoredSettings(id)[secretField];
+
+    this.writeSettings(id, plaintext ? { ...stored, [secretField]: plaintext } : stored);
+    this.providers.find(p => p.id === id)?.configure(settings);
+  }
+
+  static hasPlaintextSecrets(): boolean {
+    return this.providers.some(provider => {
+      const secretField = this.getSecretField(provider.id);
+      return !!secretField && !!this.getStoredSettings(provider.id)[secretField];
+    });
+  }
+
+  // Moves keys saved before the vault existed into it and wipes the plaintext copies
+  static async migratePlaintextSecrets(): Promise<void> {
+    for (const provider of this.providers) {
+      const secretField = this.getSecretField(provider.id);
+      const settings = this.getStoredSettings(provider.id);
+      const secret = secretField && settings[secretField];
+      if (!secret) continue;
+
+      const credential = await CredentialVault.add({
+        name: 'Imported key',
+        providerId: provider.id,
+        secret,
+        sessionOnly: false
+      });
+      CredentialVault.setActive(provider.id, credential.id);
+
+      const { [secretField]: plaintext, ...stored } = settings;
+      this.writeSettings(provider.id, stored);
+    }
+
+    localStorage.removeItem(this.LEGACY_API_KEY);
+  }
+
+  static isConfigured(provider: ScraperProvider, settings: ScraperSettings): boolean {
+    return provider.settingsFields
+      .filter(field => field.required)
+      .every(field => !!settings[field.key]?.trim());
+  }
+
+  private static writeSettings(id: string, settings: ScraperSettings): void {
+    localStorage.setItem(this.SETTINGS_KEY_PREFIX + id, JSON.stringify(settings));
+  }
+
+  private static getStoredSettings(id: string): ScraperSettings {
+    const stored = localStorage.getItem(this.SETTINGS_KEY_PREFIX + id);
+    if (stored) {
+      try {
+        return JSON.parse(stored);
+      } catch {
+        return {};
+      }
+    }
+
+    // Keys saved before providers existed
+    const legacyKey = id === 'firecrawl' ? localStorage.getItem(this.LEGACY_API_KEY) : null;
+    return legacyKey ? { apiKey: legacyKey } : {};
+  }
+
+  private static getSecretField(id: string): string | undefined {
+    return this.providers.find(p => p.id === id)?.settingsFields.find(field => field.secret)?.key;
+  }
+}
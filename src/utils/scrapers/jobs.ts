@@ -0,0 +1,26 @@
+export interface StoredCrawlJob {
+  providerId: string;
+  jobId: string;
+  url: string;
+  startedAt: string;
+}
+
+export class CrawlJobStore {
+  private static STORAGE_KEY = 'crawl_job';
+
+  static save(job: StoredCrawlJob): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(job));
+  }
+
+  static get(): StoredCrawlJob | null {
+    try {
+      return JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+}
@@ -0,0 +1,62 @@
+import type { CrawlSettings } from '../crawlSettings';
+import type { WebsiteData } from '../joomlaConverter';
+import type { ScraperErrorCode } from './errors';
+
+export interface ScrapeResult<T> {
+  success: boolean;
+  error?: string;
+  code?: ScraperErrorCode;
+  data?: T;
+}
+
+export type CrawlStatus = 'scraping' | 'completed' | 'failed' | 'cancelled';
+
+export interface CrawlProgress {
+  jobId?: string;
+  status: CrawlStatus;
+  discovered: number;
+  completed: number;
+  pages: WebsiteData[];
+}
+
+export interface CrawlOptions {
+  settings?: CrawlSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: CrawlProgress) => void;
+  resumeJobId?: string;
+}
+
+export type ScraperSettings = Record<string, string>;
+
+export interface ScraperSettingField {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'url' | 'textarea';
+  placeholder?: string;
+  description?: string;
+  required?: boolean;
+  secret?: boolean;
+}
+
+export interface ScraperUsage {
+  usedCredits?: number;
+  remainingCredits?: number;
+  description?: string;
+}
+
+export interface ScraperProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly settingsFields: ScraperSettingField[];
+
+  configure(settings: ScraperSettings): void;
+  scrapePage(url: string): Promise<ScrapeResult<WebsiteData>>;
+  crawlSite(url: string, options?: CrawlOptions): Promise<ScrapeResult<WebsiteData[]>>;
+  // Downloads an image or other file the scraped pages reference
+  fetchAsset(url: string, signal?: AbortSignal): Promise<ScrapeResult<Blob>>;
+  validateCredentials(): Promise<boolean>;
+  getUsage(): Promise<ScraperUsage | null>;
+  // Upper bound of the credits a crawl with these settings can use, null for free providers
+  estimateCredits(settings: CrawlSettings): number | null;
+}
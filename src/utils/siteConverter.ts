@@ -0,0 +1,232 @@
+import type { WebsiteData } from './joomlaConverter';
+import { LayoutSchema, type LayoutOutput } from './layoutSchema';
+import { ConversionPipeline, type ConversionOptions, type ConversionReport } from './pipeline';
+import type { RuleMatch } from './mappingRules';
+import { ProjectStore } from './projects';
+
+export interface SiteManifestPage {
+  url: string;
+  path: string;
+  title: string;
+  parent: string | null;
+  children: string[];
+}
+
+export interface SiteManifest {
+  source: string;
+  generated: string;
+  pages: SiteManifestPage[];
+}
+
+export interface PageConversion {
+  url: string;
+  title: string;
+  layout: LayoutOutput;
+  report?: ConversionReport;
+}
+
+export interface PageRuleMatch extends RuleMatch {
+  pageUrl: string;
+}
+
+export interface SiteConversion {
+  manifest: SiteManifest;
+  pages: Record<string, PageConversion>;
+}
+
+export class SiteConverter {
+  static convertSiteToJoomla(data: WebsiteData[], previous?: SiteConversion): SiteConversion {
+    const pages: Record<string, PageConversion> = {};
+    const options = new Map<string, ConversionOptions>();
+
+    data.forEach(page => {
+      const url = this.normalizeUrl(page.metadata?.sourceURL || '');
+      if (!url || pages[url]) return;
+
+      // Reuse pages converted from an earlier partial result
+      pages[url] = previous?.pages[url] || {
+        url,
+        title: page.metadata?.title || url,
+        ...ConversionPipeline.run(page, this.getOptions(url, options))
+      };
+    });
+
+    return {
+      manifest: this.buildManifest(Object.values(pages)),
+      pages
+    };
+  }
+
+  // Loads a downloaded bundle or a single page layout, migrating older output shapes
+  static fromSaved(value: unknown, fallbackUrl: string): SiteConversion {
+    const bundle = value as Partial<SiteConversion> | null;
+    const pages: Record<string, PageConversion> = {};
+
+    if (bundle?.manifest && bundle.pages && typeof bundle.pages === 'object') {
+      Object.values(bundle.pages).forEach(page => {
+        const url = this.normalizeUrl(page?.url || '');
+        if (!url) return;
+
+        try {
+          pages[url] = { url, title: page.title || url, layout: LayoutSchema.parse(page.layout) };
+        } catch (error) {
+          throw new Error(`${url}: ${error instanceof Error ? error.message : error}`);
+        }
+      });
+    } else {
+      const url = this.normalizeUrl(fallbackUrl);
+      pages[url] = { url, title: url, layout: LayoutSchema.parse(value) };
+    }
+
+    return {
+      manifest: this.buildManifest(Object.values(pages)),
+      pages
+    };
+  }
+
+  static getSectionCount(conversion: SiteConversion): number {
+    return Object.values(conversion.pages)
+      .reduce((total, page) => total + LayoutSchema.getSections(page.layout).length, 0);
+  }
+
+  static getImages(conversion: SiteConversion): string[] {
+    return Array.from(new Set(Object.values(conversion.pages).flatMap(page => page.layout.assets.images)));
+  }
+
+  // Theme settings shared by the site, each variable set to the value most pages use
+  static getTheme(conversion: SiteConversion): Record<string, string> {
+    const values = new Map<string, Map<string, number>>();
+    Object.values(conversion.pages).forEach(page => {
+      Object.entries(page.layout.assets.theme).forEach(([variable, value]) => {
+        const counts = values.get(variable) || new Map<string, number>();
+        values.set(variable, counts.set(value, (counts.get(value) || 0) + 1));
+      });
+    });
+
+    return Object.fromEntries(Array.from(values.entries()).map(([variable, counts]) => [
+      variable,
+      Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0]
+    ]));
+  }
+
+  // Names of the frameworks detected across the pages, most pages first
+  static getFrameworks(conversion: SiteConversion): string[] {
+    return this.rankReportValues(conversion, report => report.framework?.name);
+  }
+
+  static getBuilders(conversion: SiteConversion): string[] {
+    return this.rankReportValues(conversion, report => report.builder?.name);
+  }
+
+  static getRuleMatches(conversion: SiteConversion): PageRuleMatch[] {
+    return Object.values(conversion.pages)
+      .flatMap(page => (page.report?.ruleMatches || []).map(match => ({ ...match, pageUrl: page.url })));
+  }
+
+  static getPageDepth(manifest: SiteManifest, url: string): number {
+    let depth = 0;
+    let page = manifest.pages.find(p => p.url === url);
+
+    while (page?.parent) {
+      depth++;
+      page = manifest.pages.find(p => p.url === page.parent);
+    }
+
+    return depth;
+  }
+
+  // Rules and the image width are per project, looked up once per site rather than once per page
+  private static getOptions(url: string, cache: Map<string, ConversionOptions>): ConversionOptions {
+    const projectId = ProjectStore.getProjectId(url);
+    if (!cache.has(projectId)) {
+      const { rules, imageWidth } = ProjectStore.getForUrl(url);
+      cache.set(projectId, { rules, imageWidth });
+    }
+    return cache.get(projectId)!;
+  }
+
+  private static rankReportValues(conversion: SiteConversion, read: (report: ConversionReport) => string | undefined): string[] {
+    const counts = new Map<string, number>();
+    Object.values(conversion.pages).forEach(page => {
+      const value = page.report && read(page.report);
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    });
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([value]) => value);
+  }
+
+  private static buildManifest(pages: PageConversion[]): SiteManifest {
+    const entries: SiteManifestPage[] = pages.map(page => ({
+      url: page.url,
+      path: this.getPath(page.url),
+      title: page.title,
+      parent: null,
+      children: []
+    }));
+
+    // Parents first, then children in path order, so child lists come out sorted too
+    entries.sort((a, b) => this.comparePaths(a.path, b.path));
+
+    const byUrl = new Map(entries.map(entry => [entry.url, entry]));
+
+    entries.forEach(entry => {
+      const parent = this.findParent(entry.url, byUrl);
+      if (parent) {
+        entry.parent = parent.url;
+        parent.children.push(entry.url);
+      }
+    });
+
+    return {
+      source: entries.find(entry => !entry.parent)?.url || '',
+      generated: new Date().toISOString(),
+      pages: entries
+    };
+  }
+
+  // Segment by segment, so /about/team sorts right after /about rather than after /about-us
+  private static comparePaths(a: string, b: string): number {
+    const left = a.split('/').filter(Boolean);
+    const right = b.split('/').filter(Boolean);
+
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      if (left[i] !== right[i]) return left[i] < right[i] ? -1 : 1;
+    }
+    return left.length - right.length;
+  }
+
+  private static findParent(url: string, pages: Map<string, SiteManifestPage>): SiteManifestPage | null {
+    const parsed = new URL(url);
+    const segments = parsed.pathname.split('/').filter(Boolean);
+
+    // Walk up the path until an ancestor that was crawled is found
+    while (segments.length > 0) {
+      segments.pop();
+      const candidate = this.normalizeUrl(`${parsed.protocol}//${parsed.host}/${segments.join('/')}`);
+      const parent = pages.get(candidate);
+      if (parent && parent.url !== url) {
+        return parent;
+      }
+    }
+
+    return null;
+  }
+
+  private static normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      const path = parsed.pathname.replace(/\/(index\.(html?|php))?$/i, '') || '/';
+      // Use protocol + host rather than origin, which is "null" for file: URLs
+      return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`;
+    } catch {
+      return '';
+    }
+  }
+
+  private static getPath(url: string): string {
+    return new URL(url).pathname;
+  }
+}
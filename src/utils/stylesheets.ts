@@ -0,0 +1,94 @@
+import type { WebsiteData } from './joomlaConverter';
+import type { ScraperProvider } from './scrapers';
+
+// The CSS of a stylesheet by its absolute URL, null when it can't be read
+export type StylesheetReader = (url: string) => Promise<string | null>;
+
+export class StylesheetLoader {
+  // @import chains deeper than this are left as they are
+  private static MAX_IMPORT_DEPTH = 3;
+  private static IMPORT_PATTERN = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?[^;]*;/g;
+
+  // Replaces the page's <link rel="stylesheet"> elements with <style> elements holding their CSS, so
+  // theme and background extraction see the site's styles. Stylesheets that can't be read stay linked
+  static async inline(html: string, pageUrl: string, read: StylesheetReader): Promise<string> {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const links = Array.from(doc.querySelectorAll('link[rel~="stylesheet"][href]'));
+
+    if (links.length === 0) {
+      return html;
+    }
+
+    const base = this.resolve(doc.querySelector('base[href]')?.getAttribute('href') || '', pageUrl) || pageUrl;
+    let inlined = false;
+
+    for (const link of links) {
+      const cssUrl = this.resolve(link.getAttribute('href')!, base);
+      const css = cssUrl ? await this.load(cssUrl, read, 0) : null;
+      if (!cssUrl || css === null) continue;
+
+      const style = doc.createElement('style');
+      style.setAttribute('data-source', cssUrl);
+      style.textContent = css;
+      link.replaceWith(style);
+      inlined = true;
+    }
+
+    return inlined ? '<!DOCTYPE html>\n' + doc.documentElement.outerHTML : html;
+  }
+
+  // Downloads the crawled pages' stylesheets through the provider, each once for the whole site
+  static async inlinePages(pages: WebsiteData[], provider: ScraperProvider, signal?: AbortSignal): Promise<WebsiteData[]> {
+    const downloads = new Map<string, Promise<string | null>>();
+    const read: StylesheetReader = url => {
+      if (url.startsWith('file:')) return Promise.resolve(null);
+
+      if (!downloads.has(url)) {
+        downloads.set(url, provider.fetchAsset(url, signal)
+          .then(result => (result.success && result.data ? result.data.text() : null))
+          .catch(() => null));
+      }
+      return downloads.get(url)!;
+    };
+
+    return Promise.all(pages.map(async page => ({
+      ...page,
+      html: await this.inline(page.html, page.metadata?.sourceURL || '', read)
+    })));
+  }
+
+  // url() references are relative to the stylesheet, not the page it gets inlined into
+  private static async load(url: string, read: StylesheetReader, depth: number): Promise<string | null> {
+    const css = await read(url);
+    if (css === null) return null;
+
+    const absolute = css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, quote, ref) => {
+      const resolved = this.resolve(ref, url);
+      return resolved ? `url("${resolved}")` : match;
+    });
+
+    if (depth >= this.MAX_IMPORT_DEPTH) {
+      return absolute;
+    }
+
+    const imports = await Promise.all(
+      Array.from(absolute.matchAll(this.IMPORT_PATTERN), ([statement, , ref]) => {
+        const importUrl = this.resolve(ref, url);
+        return importUrl ? this.load(importUrl, read, depth + 1).then(imported => [statement, imported] as const) : null;
+      })
+    );
+
+    return imports.reduce((result, entry) =>
+      entry && entry[1] !== null ? result.replace(entry[0], () => entry[1]!) : result, absolute);
+  }
+
+  private static resolve(ref: string, base: string): string | null {
+    if (!ref || /^(data:|#)/i.test(ref)) return null;
+
+    try {
+      return new URL(ref, base).href.split('#')[0];
+    } catch {
+      return null;
+    }
+  }
+}